@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseFaultOptions, pickFault } from "@/app/lib/fault-proxy";
+import { sleep } from "@/app/lib/retry-policy";
+import { isAllowedTargetUrl, isMockUpstreamUrl } from "@/app/lib/target";
+
+// Request headers that describe this hop rather than the upstream request
+const HOP_HEADERS = ["host", "connection", "content-length", "keep-alive"];
+
+// Response headers that describe the upstream hop, or a body encoding that
+// fetch has already undone
+const UPSTREAM_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "content-encoding",
+  "content-length",
+];
+
+// Statuses whose responses cannot carry a body
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+// Erroring the body stream makes the server abort the response after the
+// headers are sent, which the client sees as a dropped connection
+function droppedBody(delayMs: number, signal: AbortSignal) {
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      await sleep(delayMs, signal);
+      controller.error(new Error("Injected connection reset"));
+    },
+  });
+}
+
+function drippedBody(
+  body: Uint8Array,
+  chunkBytes: number,
+  intervalMs: number,
+  signal: AbortSignal
+) {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (offset > 0) {
+        await sleep(intervalMs, signal);
+      }
+      if (signal.aborted || offset >= body.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(body.subarray(offset, offset + chunkBytes));
+      offset += chunkBytes;
+    },
+  });
+}
+
+async function handle(request: NextRequest) {
+  const parsed = parseFaultOptions(request.nextUrl.searchParams);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { options } = parsed;
+
+  let upstream: URL;
+  try {
+    upstream = new URL(options.upstream, request.nextUrl.origin);
+  } catch {
+    return NextResponse.json(
+      { error: "upstream must be a valid URL" },
+      { status: 400 }
+    );
+  }
+  // The proxy may not be chained through itself
+  if (
+    !isAllowedTargetUrl(upstream) &&
+    !isMockUpstreamUrl(upstream, request.nextUrl.origin)
+  ) {
+    return NextResponse.json(
+      { error: `upstream host '${upstream.host}' is not in the allowlist` },
+      { status: 400 }
+    );
+  }
+
+  const fault = pickFault(options);
+  const faultHeaders = { "X-Injected-Fault": fault ?? "none" };
+  const signal = request.signal;
+
+  if (fault === "error") {
+    return NextResponse.json(
+      { error: "Injected upstream error" },
+      { status: options.errorStatus, headers: faultHeaders }
+    );
+  }
+  if (fault === "timeout") {
+    return new Response(droppedBody(options.timeoutMs, signal), {
+      headers: faultHeaders,
+    });
+  }
+
+  const headers = new Headers(request.headers);
+  for (const name of HOP_HEADERS) {
+    headers.delete(name);
+  }
+  const hasBody = request.method !== "GET" && request.method !== "HEAD";
+  let upstreamResponse: Response;
+  try {
+    upstreamResponse = await fetch(upstream, {
+      method: request.method,
+      headers,
+      body: hasBody ? await request.arrayBuffer() : undefined,
+      cache: "no-store",
+      signal,
+    });
+  } catch (error) {
+    // Unreachable upstream, not an injected fault
+    return NextResponse.json(
+      {
+        error: `Upstream request failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      },
+      { status: 502, headers: faultHeaders }
+    );
+  }
+
+  const responseHeaders = new Headers(upstreamResponse.headers);
+  for (const name of UPSTREAM_HOP_HEADERS) {
+    responseHeaders.delete(name);
+  }
+  responseHeaders.set("X-Injected-Fault", faultHeaders["X-Injected-Fault"]);
+
+  // A 304 or 204 has no body to drop or drip, so it passes through as is
+  if (NULL_BODY_STATUSES.includes(upstreamResponse.status)) {
+    return new Response(null, {
+      status: upstreamResponse.status,
+      headers: responseHeaders,
+    });
+  }
+  if (fault === "reset") {
+    // Let the upstream answer, then drop the connection before the body
+    await upstreamResponse.body?.cancel();
+    return new Response(droppedBody(0, signal), {
+      status: upstreamResponse.status,
+      headers: responseHeaders,
+    });
+  }
+  if (fault === "slow") {
+    const body = new Uint8Array(await upstreamResponse.arrayBuffer());
+    return new Response(
+      drippedBody(body, options.dripBytes, options.dripIntervalMs, signal),
+      { status: upstreamResponse.status, headers: responseHeaders }
+    );
+  }
+
+  return new Response(upstreamResponse.body, {
+    status: upstreamResponse.status,
+    headers: responseHeaders,
+  });
+}
+
+export {
+  handle as GET,
+  handle as POST,
+  handle as PUT,
+  handle as PATCH,
+  handle as DELETE,
+};
@@ -0,0 +1,7 @@
+import { NextRequest } from "next/server";
+import { handleBenchmarkRequest } from "@/app/lib/benchmark";
+import { FETCH_STRATEGIES } from "@/app/lib/strategies";
+
+export async function POST(request: NextRequest) {
+  return handleBenchmarkRequest(request, FETCH_STRATEGIES["swr"]);
+}
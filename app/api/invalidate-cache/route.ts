@@ -0,0 +1,24 @@
+import { revalidateTag } from "next/cache";
+import { NextResponse } from "next/server";
+import { clearMemoryCaches, WINES_CACHE_TAG } from "@/app/lib/cache";
+import { clearStoredResponses } from "@/app/lib/conditional";
+
+// Expire every cached target now, in unstable_cache and the in-memory
+// caches, so the next cached fetch misses. Stored validators go too, so
+// the next conditional request downloads the full body.
+export async function POST() {
+  try {
+    revalidateTag(WINES_CACHE_TAG, { expire: 0 });
+    clearMemoryCaches();
+    clearStoredResponses();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  generateWines,
+  parseMockUpstreamOptions,
+  sampleLatency,
+} from "@/app/lib/mock-upstream";
+import { sleep } from "@/app/lib/retry-policy";
+
+// One limiter per serverConcurrency value, shared by every client and run
+// that uses that value: a server-wide limit, so a benchmark against a limited
+// mock sees the queueing a saturated server would cause
+interface Limiter {
+  active: number;
+  waiting: (() => void)[];
+}
+
+const limiters = new Map<number, Limiter>();
+
+// Resolves with the limiter once a slot is free, or with null if `signal`
+// aborts first. An aborted waiter leaves the queue without taking a slot.
+function acquire(
+  serverConcurrency: number,
+  signal: AbortSignal
+): Promise<Limiter | null> {
+  let limiter = limiters.get(serverConcurrency);
+  if (!limiter) {
+    limiter = { active: 0, waiting: [] };
+    limiters.set(serverConcurrency, limiter);
+  }
+  if (signal.aborted) {
+    return Promise.resolve(null);
+  }
+  if (limiter.active < serverConcurrency) {
+    limiter.active++;
+    return Promise.resolve(limiter);
+  }
+  const queue = limiter;
+  return new Promise((resolve) => {
+    const wake = () => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(queue);
+    };
+    const onAbort = () => {
+      queue.waiting.splice(queue.waiting.indexOf(wake), 1);
+      resolve(null);
+    };
+    queue.waiting.push(wake);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Hand the slot straight to the next waiter, or free it
+function release(limiter: Limiter) {
+  const next = limiter.waiting.shift();
+  if (next) {
+    next();
+  } else {
+    limiter.active--;
+  }
+}
+
+// Nobody reads it: the client has gone
+function clientClosed() {
+  return NextResponse.json(
+    { error: "Client closed the request" },
+    { status: 499 }
+  );
+}
+
+async function handle(request: NextRequest) {
+  const parsed = parseMockUpstreamOptions(request.nextUrl.searchParams);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { options } = parsed;
+  const signal = request.signal;
+
+  const receivedAt = performance.now();
+  let limiter: Limiter | null = null;
+  if (options.serverConcurrency !== undefined) {
+    limiter = await acquire(options.serverConcurrency, signal);
+    if (!limiter) {
+      return clientClosed();
+    }
+  }
+  const queueWait = performance.now() - receivedAt;
+
+  try {
+    // A cancelled request gives its slot back at once
+    const delay = sampleLatency(options);
+    await sleep(delay, signal);
+    if (signal.aborted) {
+      return clientClosed();
+    }
+
+    // The payload only depends on `items`, so it makes a stable validator
+    const headers = {
+      "Cache-Control": "no-cache",
+      ETag: `"wines-${options.items}"`,
+      "X-Mock-Delay": delay.toFixed(2),
+      "X-Mock-Queue-Wait": queueWait.toFixed(2),
+    };
+    if (request.headers.get("if-none-match") === headers.ETag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+    return NextResponse.json(generateWines(options.items), { headers });
+  } finally {
+    if (limiter) {
+      release(limiter);
+    }
+  }
+}
+
+export {
+  handle as GET,
+  handle as POST,
+  handle as PUT,
+  handle as PATCH,
+  handle as DELETE,
+};
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { EXPORT_FORMATS, exportRuns, type ExportFormat } from "@/app/lib/export";
+import { getRun, listRuns, parseRunFilter } from "@/app/lib/run-store";
+
+// GET /api/runs/export?format=csv|json|har[&id=...]
+// Without an id, every run matching the history filters is exported.
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const format = params.get("format") ?? "json";
+    const id = params.get("id");
+
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return NextResponse.json(
+        { error: `format must be one of ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    let runs;
+    if (id) {
+      const run = await getRun(id);
+      if (!run) {
+        return NextResponse.json({ error: "Run not found" }, { status: 404 });
+      }
+      runs = [run];
+    } else {
+      const parsedFilter = parseRunFilter(params);
+      if ("error" in parsedFilter) {
+        return NextResponse.json(
+          { error: parsedFilter.error },
+          { status: 400 }
+        );
+      }
+      runs = (await listRuns(parsedFilter.filter)).runs;
+    }
+
+    const { body, contentType, extension } = exportRuns(
+      runs,
+      format as ExportFormat,
+      id !== null
+    );
+    const filename = id ? `run-${id}.${extension}` : `runs.${extension}`;
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
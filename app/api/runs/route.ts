@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listRuns, parseRunFilter, type StoredRun } from "@/app/lib/run-store";
+
+export interface ListRunsResponse {
+  runs: StoredRun[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const page = parseInt(params.get("page") ?? "1");
+    const pageSize = parseInt(params.get("pageSize") ?? "20");
+
+    const parsedFilter = parseRunFilter(params);
+    if ("error" in parsedFilter) {
+      return NextResponse.json({ error: parsedFilter.error }, { status: 400 });
+    }
+
+    if (!page || page < 1 || !pageSize || pageSize < 1 || pageSize > 100) {
+      return NextResponse.json(
+        { error: "page must be >= 1 and pageSize between 1 and 100" },
+        { status: 400 }
+      );
+    }
+
+    const { runs, total } = await listRuns({
+      ...parsedFilter.filter,
+      offset: (page - 1) * pageSize,
+      limit: pageSize,
+    });
+
+    const response: ListRunsResponse = { runs, total, page, pageSize };
+    return NextResponse.json(response);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_BATCH_SIZE,
+  EXAMPLE_SCENARIO,
+  parseScenario,
+  parseScenarioMode,
+} from "@/app/lib/scenario";
+import { runScenario } from "@/app/lib/scenario-runner";
+
+// Run a request DAG once in the given mode. A missing scenario runs the
+// example one against the mock upstream.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsedScenario = parseScenario(body.scenario ?? EXAMPLE_SCENARIO);
+    if ("error" in parsedScenario) {
+      return NextResponse.json(
+        { error: parsedScenario.error },
+        { status: 400 }
+      );
+    }
+
+    const parsedMode = parseScenarioMode(body.mode, body.batchSize);
+    if ("error" in parsedMode) {
+      return NextResponse.json({ error: parsedMode.error }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      await runScenario(
+        parsedScenario.plan,
+        parsedMode.mode,
+        parsedMode.batchSize ?? DEFAULT_BATCH_SIZE,
+        request.nextUrl.origin
+      )
+    );
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
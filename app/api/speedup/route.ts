@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { bootstrapSpeedup } from "@/app/lib/stats";
+
+const MAX_SAMPLES = 1000;
+
+function isSampleList(input: unknown): input is number[] {
+  return (
+    Array.isArray(input) &&
+    input.length > 0 &&
+    input.length <= MAX_SAMPLES &&
+    input.every(
+      (value) =>
+        typeof value === "number" && Number.isFinite(value) && value >= 0
+    )
+  );
+}
+
+// Bootstrap CI and permutation p-value for the speedup of `candidate` over
+// `baseline` (total latencies, one per trial), for clients that run trials
+// themselves such as the CLI. The page computes the same estimate in the
+// browser.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!isSampleList(body.baseline) || !isSampleList(body.candidate)) {
+      return NextResponse.json(
+        {
+          error: `baseline and candidate must each list 1-${MAX_SAMPLES} latencies in ms`,
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(bootstrapSpeedup(body.baseline, body.candidate));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
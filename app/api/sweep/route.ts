@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { FetchStrategy } from "@/app/lib/benchmark";
+import { runPooled } from "@/app/lib/pool";
+import { RUN_STRATEGIES, type RunStrategy } from "@/app/lib/run-store";
+import { mean, percentile } from "@/app/lib/stats";
+import { FETCH_STRATEGIES } from "@/app/lib/strategies";
+import { parseTarget, type BenchmarkTarget } from "@/app/lib/target";
+
+const DEFAULT_LEVELS = [1, 2, 4, 8, 16, 32];
+
+// Minimum relative throughput gain for the next concurrency level to count
+// as still scaling
+const KNEE_GAIN_THRESHOLD = 0.1;
+
+export interface SweepLevelResult {
+  concurrency: number;
+  requests: number; // total requests across all repetitions
+  successCount: number;
+  throughput: number; // successful requests per second, mean across repetitions
+  p50Latency: number;
+  p95Latency: number;
+  averageWallTime: number; // mean batch duration per repetition (ms)
+}
+
+export interface SweepResponse {
+  strategy: RunStrategy;
+  fetchCount: number;
+  repetitions: number;
+  levels: SweepLevelResult[];
+  kneeConcurrency: number | null;
+}
+
+async function runBatch<TContext>(
+  strategy: FetchStrategy<TContext>,
+  context: TContext,
+  target: BenchmarkTarget,
+  fetchCount: number,
+  concurrency: number
+): Promise<{ wallTime: number; latencies: number[]; successCount: number }> {
+  const batchStart = performance.now();
+  // Sweeps are never cancelled
+  const { signal } = new AbortController();
+  const now = () => performance.now() - batchStart;
+  const outcomes = await runPooled(fetchCount, concurrency, async () => {
+    const start = performance.now();
+    try {
+      await strategy.fetch(target, context, signal, now);
+      return { latency: performance.now() - start, success: true };
+    } catch {
+      return { latency: performance.now() - start, success: false };
+    }
+  });
+  const wallTime = performance.now() - batchStart;
+  const successful = outcomes.filter((o) => o.success);
+
+  return {
+    wallTime,
+    latencies: successful.map((o) => o.latency),
+    successCount: successful.length,
+  };
+}
+
+// The knee is the first level whose successor improves throughput by less
+// than KNEE_GAIN_THRESHOLD (or the last level if every step pays off);
+// beyond it extra parallelism stops paying off.
+function findKnee(levels: SweepLevelResult[]): number | null {
+  if (levels.length === 0) {
+    return null;
+  }
+  for (let i = 0; i < levels.length - 1; i++) {
+    const current = levels[i].throughput;
+    const next = levels[i + 1].throughput;
+    if (current <= 0 || (next - current) / current < KNEE_GAIN_THRESHOLD) {
+      return levels[i].concurrency;
+    }
+  }
+  return levels[levels.length - 1].concurrency;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      strategy = "fetch-nocache",
+      levels = DEFAULT_LEVELS,
+      fetchCount = 32,
+      repetitions = 3,
+    } = body as {
+      strategy?: RunStrategy;
+      levels?: number[];
+      fetchCount?: number;
+      repetitions?: number;
+    };
+
+    if (!RUN_STRATEGIES.includes(strategy)) {
+      return NextResponse.json(
+        { error: `strategy must be one of ${RUN_STRATEGIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(levels) ||
+      levels.length === 0 ||
+      levels.length > 10 ||
+      levels.some((l) => !Number.isInteger(l) || l < 1 || l > 100)
+    ) {
+      return NextResponse.json(
+        { error: "levels must be 1-10 integers between 1 and 100" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(fetchCount) || fetchCount < 1 || fetchCount > 100) {
+      return NextResponse.json(
+        { error: "fetchCount must be between 1 and 100" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Number.isInteger(repetitions) ||
+      repetitions < 1 ||
+      repetitions > 10
+    ) {
+      return NextResponse.json(
+        { error: "repetitions must be between 1 and 10" },
+        { status: 400 }
+      );
+    }
+
+    const parsedTarget = parseTarget(body.target, request.nextUrl.origin);
+    if ("error" in parsedTarget) {
+      return NextResponse.json({ error: parsedTarget.error }, { status: 400 });
+    }
+    const { target } = parsedTarget;
+
+    const fetchStrategy = FETCH_STRATEGIES[strategy];
+    const prepared = fetchStrategy.prepare(body, target);
+    if ("error" in prepared) {
+      return NextResponse.json({ error: prepared.error }, { status: 400 });
+    }
+    const sortedLevels = [...new Set(levels)].sort((a, b) => a - b);
+    const levelResults: SweepLevelResult[] = [];
+
+    for (const concurrency of sortedLevels) {
+      const wallTimes: number[] = [];
+      const throughputs: number[] = [];
+      const latencies: number[] = [];
+      let successCount = 0;
+
+      for (let rep = 0; rep < repetitions; rep++) {
+        const batch = await runBatch(
+          fetchStrategy,
+          prepared.context,
+          target,
+          fetchCount,
+          concurrency
+        );
+        wallTimes.push(batch.wallTime);
+        throughputs.push(
+          batch.wallTime > 0 ? (batch.successCount / batch.wallTime) * 1000 : 0
+        );
+        latencies.push(...batch.latencies);
+        successCount += batch.successCount;
+      }
+
+      levelResults.push({
+        concurrency,
+        requests: fetchCount * repetitions,
+        successCount,
+        throughput: mean(throughputs),
+        p50Latency: percentile(latencies, 50),
+        p95Latency: percentile(latencies, 95),
+        averageWallTime: mean(wallTimes),
+      });
+    }
+
+    const response: SweepResponse = {
+      strategy,
+      fetchCount,
+      repetitions,
+      levels: levelResults,
+      kneeConcurrency: findKnee(levelResults),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,37 @@
-import { NextResponse } from "next/server";
-import { getCachedWines } from "@/app/lib/cache";
+import { NextRequest, NextResponse } from "next/server";
+import { getCachedWines, parseCacheTtl } from "@/app/lib/cache";
+import { parseTarget } from "@/app/lib/target";
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
+    // The body is optional; without one the default target is warmed
+    const body = await request.json().catch(() => ({}));
+    const parsedTarget = parseTarget(body.target, request.nextUrl.origin);
+    if ("error" in parsedTarget) {
+      return NextResponse.json(
+        { success: false, error: parsedTarget.error },
+        { status: 400 }
+      );
+    }
+
+    const parsedTtl = parseCacheTtl(body.cacheTtl);
+    if ("error" in parsedTtl) {
+      return NextResponse.json(
+        { success: false, error: parsedTtl.error },
+        { status: 400 }
+      );
+    }
+
     const start = performance.now();
-    const result = await getCachedWines();
+    const result = await getCachedWines(parsedTarget.target, parsedTtl.ttl);
     const latency = performance.now() - start;
 
     return NextResponse.json({
       success: true,
       latency,
       cachedAt: result.fetchedAt,
-      wineCount: result.data.length,
+      cacheStatus: result.cacheStatus,
+      wineCount: Array.isArray(result.data) ? result.data.length : null,
     });
   } catch (error) {
     return NextResponse.json(
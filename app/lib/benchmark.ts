@@ -0,0 +1,534 @@
+import { NextRequest, NextResponse } from "next/server";
+import type {
+  CacheStatus,
+  NetworkTimings,
+  PayloadSize,
+} from "@/app/lib/cache";
+import {
+  parseCompletion,
+  runParallel,
+  type CompletionOptions,
+} from "@/app/lib/completion";
+import { createRunStream, wantsEventStream } from "@/app/lib/event-stream";
+import type { GotTransport } from "@/app/lib/got-clients";
+import type { HedgeOptions, HedgeSpan } from "@/app/lib/hedging";
+import { recordTrace } from "@/app/lib/otel";
+import type { MemoryCacheOptions } from "@/app/lib/memory-cache";
+import { runPooled } from "@/app/lib/pool";
+import {
+  AttemptsFailedError,
+  countRetries,
+  DEFAULT_RETRY_POLICY,
+  parseRetryPolicy,
+  runWithPolicy,
+  type AttemptSpan,
+  type RetryPolicy,
+} from "@/app/lib/retry-policy";
+import { recordRun, type RunStrategy } from "@/app/lib/run-store";
+import {
+  summarize,
+  summarizeTimings,
+  type NetworkTimingStats,
+  type SummaryStats,
+} from "@/app/lib/stats";
+import { parseTarget, type BenchmarkTarget } from "@/app/lib/target";
+import type { UndiciPoolOptions } from "@/app/lib/undici-clients";
+
+export type RunMode = "parallel" | "sequential" | "pooled";
+
+export interface TraceSpan {
+  name: string;
+  index: number;
+  startTime: number; // relative to request start (ms)
+  endTime: number; // relative to request start (ms)
+  duration: number;
+  success: boolean;
+  error?: string;
+  queueWait?: number; // time spent waiting for a pool slot (ms)
+  attempts?: AttemptSpan[]; // one per try when the retry policy retried
+  cancelled?: boolean; // aborted once the run's completion condition held
+  networkTimings?: NetworkTimings;
+  socketReused?: boolean;
+  hedges?: HedgeSpan[]; // hedged: every request sent for this fetch
+  // Scenarios: the spans this request waited for, and whether it is on the
+  // chain of dependencies that ended last
+  dependsOn?: number[];
+  critical?: boolean;
+}
+
+export interface FetchResult {
+  index: number;
+  latency: number;
+  cachedAt: number;
+  success: boolean;
+  error?: string;
+  cancelled?: boolean;
+  cacheStatus?: CacheStatus; // cached fetch: how this fetch was served
+  dataAge?: number; // cached fetch: age of the data it was served (ms)
+  networkTimings?: NetworkTimings;
+  socketReused?: boolean;
+  httpVersion?: string;
+  // The upstream's response, when this fetch made a request of its own
+  httpStatus?: number; // 304 when a conditional request was revalidated
+  payload?: PayloadSize;
+  hedged?: boolean; // a backup request was sent
+  winner?: "primary" | "backup";
+  coalesced?: boolean; // single-flight: shared another fetch's upstream call
+}
+
+// One fetch as reported when it completes
+export interface CompletedFetch {
+  result: FetchResult;
+  trace: TraceSpan;
+}
+
+export interface AggregatedTimings {
+  avgDns: number;
+  avgTcp: number;
+  avgTls: number;
+  avgFirstByte: number;
+  avgDownload: number;
+  avgTotal: number;
+}
+
+// Network phases over the fetches that reported them
+export interface TimingSummary {
+  reusedSocketCount: number;
+  aggregatedTimings: AggregatedTimings;
+  timingStats: NetworkTimingStats; // per-phase distribution
+}
+
+// Response bodies over the fetches that reported them
+export interface PayloadSummary {
+  notModifiedCount: number; // 304s to conditional requests
+  encodedBytes: number; // as received, over fetches whose client counted them
+  decodedBytes: number;
+}
+
+// Response fields only some strategies set
+export interface StrategySummary
+  extends Partial<TimingSummary>, Partial<PayloadSummary> {
+  // Cache strategies. Hot when every answered fetch was served from the cache.
+  cacheStatus?: "hot" | "cold" | "unknown";
+  cacheTtl?: number; // seconds
+  memoryCache?: MemoryCacheOptions; // LRU and stale-while-revalidate
+  firstFetchLatency?: number;
+  cacheCounts?: Record<CacheStatus, number>;
+  hitRatio?: number; // fresh and stale hits over answered fetches
+  maxDataAge?: number; // age of the oldest data served (ms)
+  // got
+  transport?: GotTransport;
+  maxSockets?: number; // keep-alive pool size per origin
+  // undici
+  pool?: UndiciPoolOptions;
+  // Single-flight: `fetchCount` fetches were served by `upstreamCalls` calls
+  upstreamCalls?: number;
+  coalescedCount?: number;
+  // Hedged
+  hedge?: HedgeOptions;
+  hedgeDelay?: number; // delay actually used for this run (ms)
+  hedgeDelaySource?: "fixed" | "percentile";
+  requestsSent?: number;
+  extraLoad?: number; // extra upstream requests per logical fetch
+  hedgesWon?: number;
+  // Primary requests alone, i.e. the same fetches without hedging
+  unhedgedLatencyStats?: SummaryStats;
+  tailGain?: { p50: number; p95: number; p99: number }; // unhedged - hedged
+}
+
+export interface BenchmarkResponse extends StrategySummary {
+  results: FetchResult[];
+  traces: TraceSpan[];
+  totalLatency: number;
+  averageLatency: number;
+  latencyStats: SummaryStats; // over successful fetches
+  mode: RunMode;
+  fetchCount: number;
+  concurrency?: number;
+  policy?: RetryPolicy; // when the request set one
+  retryCount?: number; // retries across all fetches, with a policy
+  completion?: CompletionOptions; // parallel mode, when not all-settled
+  cancelledCount?: number;
+}
+
+// What one fetch adds to its result and trace
+export interface FetchOutcome {
+  cachedAt?: number; // when the data was fetched upstream (epoch ms)
+  cacheStatus?: CacheStatus;
+  dataAge?: number;
+  networkTimings?: NetworkTimings;
+  socketReused?: boolean;
+  httpVersion?: string;
+  httpStatus?: number;
+  payload?: PayloadSize;
+  hedged?: boolean;
+  winner?: "primary" | "backup";
+  hedges?: HedgeSpan[];
+  coalesced?: boolean;
+}
+
+// Thrown by a strategy to keep what it learned about a fetch that failed.
+// An HTTP status on the underlying error still decides retries.
+export class FailedFetchError extends Error {
+  readonly status?: number;
+
+  constructor(
+    error: unknown,
+    readonly outcome: FetchOutcome
+  ) {
+    super(error instanceof Error ? error.message : "Unknown error", {
+      cause: error,
+    });
+    this.name = "FailedFetchError";
+    this.status = (error as { status?: number } | null)?.status;
+  }
+}
+
+// A way of fetching the target, e.g. a particular HTTP client. `prepare`
+// validates the strategy's own request body fields and returns per-run state
+// that every `fetch` of the run receives. `summarize` adds the strategy's
+// response fields once every fetch has completed.
+export interface FetchStrategy<TContext = unknown> {
+  id: RunStrategy;
+  prepare(
+    body: Record<string, unknown>,
+    target: BenchmarkTarget
+  ): { context: TContext } | { error: string };
+  // One attempt. `now` returns the time relative to the run's start.
+  fetch(
+    target: BenchmarkTarget,
+    context: TContext,
+    signal: AbortSignal,
+    now: () => number
+  ): Promise<FetchOutcome>;
+  summarize?(
+    run: {
+      results: FetchResult[];
+      traces: TraceSpan[];
+      latencyStats: SummaryStats;
+    },
+    context: TContext
+  ): StrategySummary | Promise<StrategySummary>;
+}
+
+export interface BenchmarkOptions {
+  fetchCount: number;
+  mode: RunMode;
+  concurrency?: number; // pooled only
+  target: BenchmarkTarget;
+  policy?: RetryPolicy; // when the request set one
+  completion: CompletionOptions;
+}
+
+// Validate the request body fields every strategy shares
+export function parseBenchmarkOptions(
+  body: Record<string, unknown>,
+  origin?: string
+): { options: BenchmarkOptions } | { error: string } {
+  const { fetchCount, mode, concurrency } = body as {
+    fetchCount: number;
+    mode: RunMode;
+    concurrency?: number;
+  };
+
+  if (!fetchCount || fetchCount < 1 || fetchCount > 100) {
+    return { error: "fetchCount must be between 1 and 100" };
+  }
+
+  if (mode !== "parallel" && mode !== "sequential" && mode !== "pooled") {
+    return { error: "mode must be 'parallel', 'sequential' or 'pooled'" };
+  }
+
+  if (
+    mode === "pooled" &&
+    (!Number.isInteger(concurrency) || concurrency! < 1 || concurrency! > 100)
+  ) {
+    return { error: "concurrency must be an integer between 1 and 100" };
+  }
+
+  const parsedTarget = parseTarget(body.target, origin);
+  if ("error" in parsedTarget) {
+    return parsedTarget;
+  }
+
+  const parsedPolicy = parseRetryPolicy(body.policy);
+  if ("error" in parsedPolicy) {
+    return parsedPolicy;
+  }
+
+  const parsedCompletion = parseCompletion(
+    body.completion,
+    body.completionN,
+    fetchCount
+  );
+  if ("error" in parsedCompletion) {
+    return parsedCompletion;
+  }
+  const { completion } = parsedCompletion;
+  if (mode !== "parallel" && completion.mode !== "all-settled") {
+    return { error: "completion only applies to parallel mode" };
+  }
+
+  return {
+    options: {
+      fetchCount,
+      mode,
+      concurrency: mode === "pooled" ? concurrency : undefined,
+      target: parsedTarget.target,
+      policy: body.policy ? parsedPolicy.policy : undefined,
+      completion,
+    },
+  };
+}
+
+async function performSingleFetch<TContext>(
+  strategy: FetchStrategy<TContext>,
+  context: TContext,
+  index: number,
+  requestStart: number,
+  options: BenchmarkOptions,
+  queuedAt?: number,
+  signal?: AbortSignal
+): Promise<CompletedFetch> {
+  const now = () => performance.now() - requestStart;
+  const startTime = now();
+  const queueWait = queuedAt === undefined ? undefined : startTime - queuedAt;
+  let outcome: FetchOutcome;
+  let attempts: AttemptSpan[] | undefined;
+  let errorMessage: string | undefined;
+
+  try {
+    const run = await runWithPolicy(
+      options.policy ?? DEFAULT_RETRY_POLICY,
+      now,
+      (attemptSignal) =>
+        strategy.fetch(options.target, context, attemptSignal, now),
+      signal
+    );
+    outcome = run.value;
+    attempts = run.attempts;
+  } catch (error) {
+    const cause = error instanceof AttemptsFailedError ? error.cause : error;
+    outcome = cause instanceof FailedFetchError ? cause.outcome : {};
+    attempts = error instanceof AttemptsFailedError ? error.attempts : undefined;
+    errorMessage = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  const endTime = now();
+  const duration = endTime - startTime;
+  const success = errorMessage === undefined;
+  const cancelled = (!success && signal?.aborted) || undefined;
+
+  return {
+    result: {
+      index,
+      latency: duration,
+      cachedAt: outcome.cachedAt ?? 0,
+      success,
+      error: errorMessage,
+      cancelled,
+      cacheStatus: outcome.cacheStatus,
+      dataAge: outcome.dataAge,
+      networkTimings: outcome.networkTimings,
+      socketReused: outcome.socketReused,
+      httpVersion: outcome.httpVersion,
+      httpStatus: outcome.httpStatus,
+      payload: outcome.payload,
+      hedged: outcome.hedged,
+      winner: outcome.winner,
+      coalesced: outcome.coalesced,
+    },
+    trace: {
+      name: `fetch-${index + 1}`,
+      index,
+      startTime,
+      endTime,
+      duration,
+      queueWait,
+      attempts: attempts && attempts.length > 1 ? attempts : undefined,
+      success,
+      error: errorMessage,
+      cancelled,
+      networkTimings: outcome.networkTimings,
+      socketReused: outcome.socketReused,
+      hedges: outcome.hedges,
+    },
+  };
+}
+
+// Undefined when no successful fetch reported its phases, e.g. because the
+// strategy's client exposes none or every fetch was a cache hit
+function summarizeNetworkTimings(
+  results: FetchResult[]
+): TimingSummary | undefined {
+  const timings = results
+    .filter((r) => r.success)
+    .map((r) => r.networkTimings)
+    .filter((t): t is NetworkTimings => t !== undefined);
+  if (timings.length === 0) {
+    return undefined;
+  }
+  const timingStats = summarizeTimings(timings);
+
+  return {
+    reusedSocketCount: results.filter((r) => r.socketReused).length,
+    aggregatedTimings: {
+      avgDns: timingStats.dns.mean,
+      avgTcp: timingStats.tcp.mean,
+      avgTls: timingStats.tls.mean,
+      avgFirstByte: timingStats.firstByte.mean,
+      avgDownload: timingStats.download.mean,
+      avgTotal: timingStats.total.mean,
+    },
+    timingStats,
+  };
+}
+
+// Undefined when no successful fetch reported its response body, e.g. when
+// every fetch was a cache hit
+function summarizePayloads(results: FetchResult[]): PayloadSummary | undefined {
+  const answered = results.filter((r) => r.success && r.payload);
+  if (answered.length === 0) {
+    return undefined;
+  }
+  let encodedBytes = 0;
+  let decodedBytes = 0;
+  for (const { payload } of answered) {
+    encodedBytes += payload!.encodedBytes ?? 0;
+    decodedBytes += payload!.decodedBytes;
+  }
+  return {
+    notModifiedCount: answered.filter((r) => r.httpStatus === 304).length,
+    encodedBytes,
+    decodedBytes,
+  };
+}
+
+// Run every fetch of a benchmark with `strategy`. `onFetch` sees each fetch
+// as it completes. Aborting `signal` cancels the run; a cancelled run is
+// incomplete, so unlike a finished one it is not recorded or traced.
+export async function runBenchmark<TContext>(
+  strategy: FetchStrategy<TContext>,
+  context: TContext,
+  options: BenchmarkOptions,
+  signal?: AbortSignal,
+  onFetch?: (fetched: CompletedFetch) => void
+): Promise<BenchmarkResponse> {
+  const { fetchCount, mode, completion } = options;
+  const requestStart = performance.now();
+  const fetchOne = async (
+    index: number,
+    queuedAt?: number,
+    fetchSignal?: AbortSignal
+  ) => {
+    const fetched = await performSingleFetch(
+      strategy,
+      context,
+      index,
+      requestStart,
+      options,
+      queuedAt,
+      fetchSignal
+    );
+    onFetch?.(fetched);
+    return fetched;
+  };
+
+  let fetched: CompletedFetch[];
+  if (mode === "parallel") {
+    fetched = await runParallel(
+      fetchCount,
+      completion,
+      (i, fetchSignal) => fetchOne(i, undefined, fetchSignal),
+      (r) => r.result.success,
+      signal
+    );
+  } else if (mode === "pooled") {
+    // Every fetch is queued up front and waits for one of the pool slots
+    const queuedAt = performance.now() - requestStart;
+    fetched = await runPooled(fetchCount, options.concurrency!, (i) =>
+      fetchOne(i, queuedAt, signal)
+    );
+  } else {
+    fetched = [];
+    for (let i = 0; i < fetchCount; i++) {
+      fetched.push(await fetchOne(i, undefined, signal));
+    }
+  }
+
+  const totalLatency = performance.now() - requestStart;
+  const results = fetched.map((r) => r.result);
+  const traces = fetched.map((r) => r.trace);
+  const successfulResults = results.filter((r) => r.success);
+  const latencyStats = summarize(successfulResults.map((r) => r.latency));
+  const summary = await strategy.summarize?.(
+    { results, traces, latencyStats },
+    context
+  );
+
+  const response: BenchmarkResponse = {
+    results,
+    traces,
+    totalLatency,
+    averageLatency: latencyStats.mean,
+    latencyStats,
+    mode,
+    fetchCount,
+    concurrency: options.concurrency,
+    policy: options.policy,
+    retryCount: options.policy ? countRetries(traces) : undefined,
+    ...(completion.mode !== "all-settled" && {
+      completion,
+      cancelledCount: results.filter((r) => r.cancelled).length,
+    }),
+    ...summarizeNetworkTimings(results),
+    ...summarizePayloads(results),
+    ...summary,
+  };
+
+  if (!signal?.aborted) {
+    await recordRun(strategy.id, response, options.target);
+    // Not awaited, so a slow collector cannot delay the response;
+    // recordTrace logs its own failures
+    void recordTrace(strategy.id, response, options.target, requestStart);
+  }
+  return response;
+}
+
+// POST handler shared by the fetch routes: validates the body, then answers
+// with the response as JSON, or streams progress when the client asks for
+// an event stream
+export async function handleBenchmarkRequest<TContext>(
+  request: NextRequest,
+  strategy: FetchStrategy<TContext>
+): Promise<Response> {
+  try {
+    const body = await request.json();
+
+    const parsedOptions = parseBenchmarkOptions(body, request.nextUrl.origin);
+    if ("error" in parsedOptions) {
+      return NextResponse.json({ error: parsedOptions.error }, { status: 400 });
+    }
+    const { options } = parsedOptions;
+
+    const prepared = strategy.prepare(body, options.target);
+    if ("error" in prepared) {
+      return NextResponse.json({ error: prepared.error }, { status: 400 });
+    }
+    const { context } = prepared;
+
+    if (wantsEventStream(request)) {
+      return createRunStream<CompletedFetch, BenchmarkResponse>(
+        request.signal,
+        (signal, onFetch) =>
+          runBenchmark(strategy, context, options, signal, onFetch)
+      );
+    }
+    return NextResponse.json(await runBenchmark(strategy, context, options));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
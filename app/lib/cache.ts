@@ -1,7 +1,33 @@
+import type {
+  ClientRequest,
+  IncomingHttpHeaders,
+  IncomingMessage,
+} from "node:http";
+import { promisify } from "node:util";
+import { brotliDecompress, gunzip, inflate } from "node:zlib";
+import axios from "axios";
 import { unstable_cache } from "next/cache";
-import got from "got";
-
-const WINES_API_URL = "https://api.sampleapis.com/wines/reds";
+import {
+  getConditionalHeaders,
+  getStoredData,
+  storeResponse,
+} from "@/app/lib/conditional";
+import {
+  DEFAULT_GOT_TRANSPORT,
+  getGotClient,
+  type GotTransportOptions,
+} from "@/app/lib/got-clients";
+import {
+  DEFAULT_TARGET,
+  getTargetKey,
+  type BenchmarkTarget,
+} from "@/app/lib/target";
+import { MemoryCache, type MemoryCacheOptions } from "@/app/lib/memory-cache";
+import {
+  DEFAULT_UNDICI_POOL,
+  getUndiciPool,
+  type UndiciPoolOptions,
+} from "@/app/lib/undici-clients";
 
 export interface Wine {
   winery: string;
@@ -23,61 +49,335 @@ export interface NetworkTimings {
   total: number; // Total request time
 }
 
-export interface FetchWithTimingsResult {
-  data: Wine[];
+// Size of a response body. Bytes are counted as received, before and after
+// the client undoes the Content-Encoding.
+export interface PayloadSize {
+  contentEncoding?: string; // e.g. "gzip"; missing for an uncompressed body
+  encodedBytes?: number; // missing when the client hides the encoded body
+  decodedBytes: number;
+}
+
+export interface FetchTargetResult {
+  // Parsed JSON body, or the raw text when the body is not JSON. A 304 to a
+  // conditional request carries the stored body it revalidated.
+  data: unknown;
   fetchedAt: number;
+  status: number; // the upstream's HTTP status
+  payload: PayloadSize; // of this response, so empty for a 304
+}
+
+export interface FetchWithTimingsResult extends FetchTargetResult {
   timings: NetworkTimings;
+  socketReused: boolean; // served over an existing connection / HTTP/2 session
+  httpVersion: string;
 }
 
-// Cached version of the wines API fetch with a long TTL (1 hour)
-export const getCachedWines = unstable_cache(
-  async (): Promise<{ data: Wine[]; fetchedAt: number }> => {
-    const response = await fetch(WINES_API_URL);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch wines: ${response.status}`);
+// Sockets and HTTP/2 sessions that have already carried a request.
+// ClientRequest.reusedSocket misses requests that queued for a busy socket,
+// and http2-wrapper sets it on every agent-managed request, so track
+// connections directly.
+const seenConnections = new WeakSet<object>();
+
+function markConnectionUsed(connection: object): boolean {
+  const reused = seenConnections.has(connection);
+  seenConnections.add(connection);
+  return reused;
+}
+
+function getHttp2Session(request: ClientRequest | undefined) {
+  return (request as unknown as { _request?: { session?: object } } | undefined)
+    ?._request?.session;
+}
+
+function getHeader(
+  headers: IncomingHttpHeaders,
+  name: string
+): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value.join(", ") : value;
+}
+
+function getRawHeader(rawHeaders: string[], name: string): string | undefined {
+  for (let i = 0; i < rawHeaders.length; i += 2) {
+    if (rawHeaders[i].toLowerCase() === name) {
+      return rawHeaders[i + 1];
     }
-    const data = await response.json();
+  }
+  return undefined;
+}
+
+// The upstream answered, but not with the target's expected status
+export class UnexpectedStatusError extends Error {
+  constructor(
+    url: string,
+    expected: number,
+    readonly status: number
+  ) {
+    super(`Failed to fetch ${url}: expected ${expected}, got ${status}`);
+    this.name = "UnexpectedStatusError";
+  }
+}
+
+function parseBody(text: string): unknown {
+  if (!text) {
+    return null;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// What settleResponse needs from any client's response
+interface UpstreamResponse {
+  status: number;
+  header(name: string): string | undefined;
+  text: string; // decoded body
+  encodedBytes?: number; // when the client counted the body as received
+}
+
+function getContentLength(response: UpstreamResponse): number | undefined {
+  const length = Number(response.header("content-length"));
+  return Number.isInteger(length) && length >= 0 ? length : undefined;
+}
+
+// Check a response against the target and read its body. Every client ends
+// here, so status checks, conditional revalidation and payload sizes work
+// the same way for all of them.
+function settleResponse(
+  target: BenchmarkTarget,
+  response: UpstreamResponse
+): FetchTargetResult {
+  const stored = response.status === 304 ? getStoredData(target) : undefined;
+  if (stored) {
     return {
-      data,
+      data: stored.data,
       fetchedAt: Date.now(),
+      status: 304,
+      payload: { encodedBytes: 0, decodedBytes: 0 },
     };
-  },
-  ["wines-cache"],
-  {
-    revalidate: 3600, // 1 hour TTL
-    tags: ["wines"],
   }
-);
-
-// Direct fetch without cache (for comparison)
-export async function getUncachedWines(): Promise<{
-  data: Wine[];
-  fetchedAt: number;
-}> {
-  const response = await fetch(WINES_API_URL, { cache: "no-store" });
-  if (!response.ok) {
-    throw new Error(`Failed to fetch wines: ${response.status}`);
+  if (response.status !== target.expectedStatus) {
+    throw new UnexpectedStatusError(
+      target.url,
+      target.expectedStatus,
+      response.status
+    );
   }
-  const data = await response.json();
+
+  const data = parseBody(response.text);
+  storeResponse(
+    target,
+    response.header("etag"),
+    response.header("last-modified"),
+    data
+  );
+
+  const encoding = response.header("content-encoding");
+  const contentEncoding =
+    encoding && encoding !== "identity" ? encoding : undefined;
+  const decodedBytes = Buffer.byteLength(response.text);
   return {
     data,
     fetchedAt: Date.now(),
+    status: response.status,
+    payload: {
+      contentEncoding,
+      encodedBytes:
+        response.encodedBytes ??
+        getContentLength(response) ??
+        (contentEncoding ? undefined : decodedBytes),
+      decodedBytes,
+    },
   };
 }
 
+// The target's headers plus the validators of a conditional target
+function getRequestHeaders(target: BenchmarkTarget): Record<string, string> {
+  return { ...target.headers, ...getConditionalHeaders(target) };
+}
+
+async function fetchTarget(
+  target: BenchmarkTarget,
+  init?: RequestInit
+): Promise<FetchTargetResult> {
+  const response = await fetch(target.url, {
+    ...init,
+    method: target.method,
+    headers: getRequestHeaders(target),
+    body: target.body,
+  });
+  // fetch decompresses without counting the encoded body; fetch-timings
+  // measures it off the connection instead
+  return settleResponse(target, {
+    status: response.status,
+    header: (name) => response.headers.get(name) ?? undefined,
+    text: await response.text(),
+  });
+}
+
+// How a getCachedWines call was served: from a fresh cache entry, from a
+// stale entry while it revalidates in the background, or from the upstream
+export type CacheStatus = "hit" | "stale" | "miss";
+
+export interface CachedFetchResult extends FetchTargetResult {
+  cacheStatus: CacheStatus;
+}
+
+// Every cached target's entry carries this tag, so one invalidation empties
+// the whole cache
+export const WINES_CACHE_TAG = "wines";
+
+export const DEFAULT_CACHE_TTL = 3600; // seconds
+
+export function parseCacheTtl(
+  input: unknown
+): { ttl: number } | { error: string } {
+  if (input === undefined || input === null) {
+    return { ttl: DEFAULT_CACHE_TTL };
+  }
+  if (
+    typeof input !== "number" ||
+    !Number.isInteger(input) ||
+    input < 1 ||
+    input > 86400
+  ) {
+    return { error: "cacheTtl must be an integer between 1 and 86400" };
+  }
+  return { ttl: input };
+}
+
+// Cached version of the target fetch, kept for `ttl` seconds (1 hour by
+// default). Each target gets its own cache entry, keyed by its method, URL,
+// headers and body.
+export async function getCachedWines(
+  target: BenchmarkTarget = DEFAULT_TARGET,
+  ttl: number = DEFAULT_CACHE_TTL
+): Promise<CachedFetchResult> {
+  // unstable_cache only calls through on a miss or to revalidate, so whether
+  // and when this call's fetch ran tells how the call was served
+  let called = false;
+  let fetched: FetchTargetResult | undefined;
+  const result = await unstable_cache(
+    async (): Promise<FetchTargetResult> => {
+      called = true;
+      fetched = await fetchTarget(target);
+      return fetched;
+    },
+    ["wines-cache", getTargetKey(target)],
+    {
+      revalidate: ttl,
+      tags: [WINES_CACHE_TAG],
+    }
+  )();
+
+  // A call that finds a revalidation already under way does not start
+  // another one, so an expired entry is stale even when not called
+  let cacheStatus: CacheStatus =
+    Date.now() - result.fetchedAt > ttl * 1000 ? "stale" : "hit";
+  if (called) {
+    cacheStatus = fetched?.fetchedAt === result.fetchedAt ? "miss" : "stale";
+  }
+  return { ...result, cacheStatus };
+}
+
+// Process-local alternatives to unstable_cache, one store per policy
+const lruCache = new MemoryCache<FetchTargetResult>();
+const swrCache = new MemoryCache<FetchTargetResult>();
+
+// In-memory LRU cache with a TTL; expired entries are fetched again
+export async function getLruCachedWines(
+  target: BenchmarkTarget,
+  options: MemoryCacheOptions
+): Promise<CachedFetchResult> {
+  const { value, cacheStatus } = await lruCache.get(
+    getTargetKey(target),
+    options,
+    () => fetchTarget(target)
+  );
+  return { ...value, cacheStatus };
+}
+
+// In-memory cache that serves expired entries while refreshing them
+export async function getSwrCachedWines(
+  target: BenchmarkTarget,
+  options: MemoryCacheOptions
+): Promise<CachedFetchResult> {
+  const { value, cacheStatus } = await swrCache.getStaleWhileRevalidate(
+    getTargetKey(target),
+    options,
+    () => fetchTarget(target)
+  );
+  return { ...value, cacheStatus };
+}
+
+export function clearMemoryCaches(): void {
+  lruCache.clear();
+  swrCache.clear();
+}
+
+// Direct fetch without cache (for comparison)
+export async function getUncachedWines(
+  target: BenchmarkTarget = DEFAULT_TARGET,
+  signal?: AbortSignal
+): Promise<FetchTargetResult> {
+  return fetchTarget(target, { cache: "no-store", signal });
+}
+
 // Fetch using 'got' with detailed network timings
-export async function getWinesWithTimings(): Promise<FetchWithTimingsResult> {
-  const response = await got(WINES_API_URL, {
-    responseType: "json",
-    // Disable retry to get accurate single-request timings
+export async function getWinesWithTimings(
+  target: BenchmarkTarget = DEFAULT_TARGET,
+  transport: GotTransportOptions = DEFAULT_GOT_TRANSPORT,
+  signal?: AbortSignal
+): Promise<FetchWithTimingsResult> {
+  let clientRequest: ClientRequest | undefined;
+  let socketReused = false;
+  // got only counts the body after decompressing it, and drops
+  // Content-Encoding from the response it decompresses, so both come from
+  // the response as received
+  let received: IncomingMessage | undefined;
+  let encodedBytes = 0;
+  const response = await getGotClient(transport)(target.url, {
+    method: target.method,
+    headers: getRequestHeaders(target),
+    body: target.body,
+    responseType: "text",
+    // Status is checked against the target's expectation below
+    throwHttpErrors: false,
+    // Retries are driven by the caller's RetryPolicy so each attempt is
+    // timed on its own
     retry: { limit: 0 },
+    signal,
+  }).on("request", (request) => {
+    clientRequest = request as ClientRequest;
+    clientRequest.once("socket", (socket) => {
+      socketReused = markConnectionUsed(socket);
+    });
+    clientRequest.once("response", (message: IncomingMessage) => {
+      received = message;
+      message.on("data", (chunk: Buffer) => {
+        encodedBytes += chunk.length;
+      });
+    });
   });
 
+  // HTTP/2 requests get a per-stream socket proxy, so use the session instead
+  const session = getHttp2Session(clientRequest);
+  if (session) {
+    socketReused = markConnectionUsed(session);
+  }
+
+  const settled = settleResponse(target, {
+    status: response.statusCode,
+    header: (name) => getHeader((received ?? response).headers, name),
+    text: response.body,
+    encodedBytes,
+  });
   const phases = response.timings.phases;
 
   return {
-    data: response.body as Wine[],
-    fetchedAt: Date.now(),
+    ...settled,
     timings: {
       wait: phases.wait ?? 0,
       dns: phases.dns ?? 0,
@@ -88,5 +388,99 @@ export async function getWinesWithTimings(): Promise<FetchWithTimingsResult> {
       download: phases.download ?? 0,
       total: phases.total ?? 0,
     },
+    socketReused,
+    httpVersion: response.httpVersion,
   };
 }
+
+const DECODERS: Record<string, (body: Buffer) => Promise<Buffer>> = {
+  gzip: promisify(gunzip),
+  "x-gzip": promisify(gunzip),
+  deflate: promisify(inflate),
+  br: promisify(brotliDecompress),
+};
+
+// Undo a Content-Encoding, last applied first. Unknown codings are left as
+// they are, so the body fails to parse rather than being misread.
+async function decodeBody(
+  body: Buffer,
+  contentEncoding: string | undefined
+): Promise<Buffer> {
+  const codings = (contentEncoding ?? "")
+    .split(",")
+    .map((coding) => coding.trim().toLowerCase())
+    .filter((coding) => coding && coding !== "identity")
+    .reverse();
+  let decoded = body;
+  for (const coding of codings) {
+    const decode = DECODERS[coding];
+    if (!decode) {
+      break;
+    }
+    decoded = await decode(decoded);
+  }
+  return decoded;
+}
+
+// Fetch through a shared undici Pool, the way our services call upstreams
+export async function getWinesWithUndici(
+  target: BenchmarkTarget = DEFAULT_TARGET,
+  pool: UndiciPoolOptions = DEFAULT_UNDICI_POOL,
+  signal?: AbortSignal
+): Promise<FetchTargetResult> {
+  const url = new URL(target.url);
+  const response = await getUndiciPool(url.origin, pool).request({
+    path: url.pathname + url.search,
+    method: target.method,
+    headers: getRequestHeaders(target),
+    body: target.body,
+    signal,
+  });
+  // Pool.request does not decompress, so the body is read as received and
+  // decoded here. Reading it also returns the connection to the pool.
+  const body = Buffer.from(await response.body.arrayBuffer());
+  const header = (name: string) => getHeader(response.headers, name);
+  const decoded = await decodeBody(body, header("content-encoding"));
+  return settleResponse(target, {
+    status: response.statusCode,
+    header,
+    text: decoded.toString(),
+    encodedBytes: body.length,
+  });
+}
+
+// Fetch using axios with its default Node adapter
+export async function getWinesWithAxios(
+  target: BenchmarkTarget = DEFAULT_TARGET,
+  signal?: AbortSignal
+): Promise<FetchTargetResult> {
+  // Counted before axios decompresses the body
+  let encodedBytes = 0;
+  const response = await axios.request<string>({
+    url: target.url,
+    method: target.method,
+    headers: getRequestHeaders(target),
+    data: target.body,
+    signal,
+    // Parse the body like the other clients instead of axios' JSON handling
+    responseType: "text",
+    transformResponse: (body) => body,
+    // Status is checked against the target's expectation below
+    validateStatus: null,
+    onDownloadProgress: ({ loaded }) => {
+      encodedBytes = loaded;
+    },
+  });
+  // axios drops Content-Encoding once it has decompressed the body, but the
+  // raw headers keep it
+  const message = (response.request as { res?: IncomingMessage }).res;
+  return settleResponse(target, {
+    status: response.status,
+    header: (name) =>
+      name === "content-encoding" && message
+        ? getRawHeader(message.rawHeaders, name)
+        : response.headers[name]?.toString(),
+    text: response.data,
+    encodedBytes,
+  });
+}
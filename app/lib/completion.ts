@@ -0,0 +1,116 @@
+// When parallel mode stops waiting. all-settled waits for every fetch;
+// fail-fast stops at the first failure (Promise.all); first-success stops at
+// the first success (Promise.any); first-n stops once `n` fetches succeeded.
+// Fetches still in flight when the run completes are aborted.
+export type CompletionMode =
+  | "all-settled"
+  | "fail-fast"
+  | "first-success"
+  | "first-n";
+
+export const COMPLETION_MODES: readonly CompletionMode[] = [
+  "all-settled",
+  "fail-fast",
+  "first-success",
+  "first-n",
+];
+
+export interface CompletionOptions {
+  mode: CompletionMode;
+  n?: number; // first-n only
+}
+
+export const DEFAULT_COMPLETION: CompletionOptions = { mode: "all-settled" };
+
+export function parseCompletion(
+  input: unknown,
+  n: unknown,
+  fetchCount: number
+): { completion: CompletionOptions } | { error: string } {
+  if (input === undefined || input === null) {
+    return { completion: DEFAULT_COMPLETION };
+  }
+  if (!COMPLETION_MODES.includes(input as CompletionMode)) {
+    return {
+      error: `completion must be one of ${COMPLETION_MODES.join(", ")}`,
+    };
+  }
+  if (input !== "first-n") {
+    return { completion: { mode: input as CompletionMode } };
+  }
+  if (
+    typeof n !== "number" ||
+    !Number.isInteger(n) ||
+    n < 1 ||
+    n > fetchCount
+  ) {
+    return { error: "completionN must be an integer between 1 and fetchCount" };
+  }
+  return { completion: { mode: "first-n", n } };
+}
+
+function getCancelReason(completion: CompletionOptions): string {
+  switch (completion.mode) {
+    case "fail-fast":
+      return "Cancelled after the first failure";
+    case "first-success":
+      return "Cancelled after the first success";
+    default:
+      return `Cancelled after ${completion.n} successes`;
+  }
+}
+
+// Start every task at once and abort the shared signal as soon as the
+// completion condition holds, or when `signal` aborts. Tasks must settle
+// promptly once aborted (and never reject), so the returned results include
+// the cancelled ones.
+export async function runParallel<T>(
+  count: number,
+  completion: CompletionOptions,
+  task: (index: number, signal: AbortSignal) => Promise<T>,
+  succeeded: (result: T) => boolean,
+  signal?: AbortSignal
+): Promise<T[]> {
+  const controller = new AbortController();
+  if (signal) {
+    const onAbort = () => controller.abort(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+  }
+  let successes = 0;
+  let failures = 0;
+
+  const isComplete = () => {
+    switch (completion.mode) {
+      case "all-settled":
+        return false;
+      case "fail-fast":
+        return failures > 0;
+      case "first-success":
+        return successes > 0;
+      case "first-n":
+        return successes >= completion.n!;
+    }
+  };
+
+  return Promise.all(
+    Array.from({ length: count }, (_, i) =>
+      task(i, controller.signal).then((result) => {
+        if (!controller.signal.aborted) {
+          if (succeeded(result)) {
+            successes++;
+          } else {
+            failures++;
+          }
+          if (isComplete()) {
+            controller.abort(new Error(getCancelReason(completion)));
+          }
+        }
+        return result;
+      })
+    )
+  );
+}
@@ -0,0 +1,57 @@
+import { getTargetKey, type BenchmarkTarget } from "@/app/lib/target";
+
+// The last full response of a target and the validators that came with it
+interface StoredResponse {
+  etag?: string;
+  lastModified?: string;
+  data: unknown;
+}
+
+// Kept for every target, conditional or not, and shared by every strategy,
+// so the first conditional request can already revalidate
+const responses = new Map<string, StoredResponse>();
+
+// If-None-Match / If-Modified-Since for a conditional target, once a
+// response with validators has been seen
+export function getConditionalHeaders(
+  target: BenchmarkTarget
+): Record<string, string> {
+  const stored = target.conditional
+    ? responses.get(getTargetKey(target))
+    : undefined;
+  const headers: Record<string, string> = {};
+  if (stored?.etag) {
+    headers["If-None-Match"] = stored.etag;
+  }
+  if (stored?.lastModified) {
+    headers["If-Modified-Since"] = stored.lastModified;
+  }
+  return headers;
+}
+
+// Remember a full response whose validators a later request can send.
+// Responses without validators replace nothing.
+export function storeResponse(
+  target: BenchmarkTarget,
+  etag: string | undefined,
+  lastModified: string | undefined,
+  data: unknown
+): void {
+  if (etag || lastModified) {
+    responses.set(getTargetKey(target), { etag, lastModified, data });
+  }
+}
+
+// The body a 304 stands for, if this target has one stored
+export function getStoredData(
+  target: BenchmarkTarget
+): { data: unknown } | undefined {
+  const stored = target.conditional
+    ? responses.get(getTargetKey(target))
+    : undefined;
+  return stored && { data: stored.data };
+}
+
+export function clearStoredResponses(): void {
+  responses.clear();
+}
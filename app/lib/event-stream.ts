@@ -0,0 +1,105 @@
+// Server-Sent Events variant of the fetch routes. A client asks for it with
+// `Accept: text/event-stream`; the route then answers immediately and sends a
+// "fetch" event per completed fetch, then "done" with the full response (or
+// "error"). Closing the stream cancels the run.
+export const EVENT_STREAM_TYPE = "text/event-stream";
+
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get("accept")?.includes(EVENT_STREAM_TYPE) ?? false;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+// Start `run` and stream its progress. The signal given to `run` aborts when
+// the client goes away or `signal` (the request's) aborts.
+export function createRunStream<TFetch, TResponse>(
+  signal: AbortSignal,
+  run: (
+    signal: AbortSignal,
+    onFetch: (fetched: TFetch) => void
+  ) => Promise<TResponse>
+): Response {
+  const controller = new AbortController();
+  const cancel = () => controller.abort(new Error("Run cancelled"));
+  signal.addEventListener("abort", cancel, { once: true });
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      const send = (event: string, data: unknown) => {
+        if (!controller.signal.aborted) {
+          streamController.enqueue(
+            encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+          );
+        }
+      };
+      // Not awaited: the response must be returned before the run finishes
+      run(controller.signal, (fetched) => send("fetch", fetched))
+        .then(
+          (response) => send("done", response),
+          (error) => send("error", { error: errorMessage(error) })
+        )
+        .finally(() => {
+          signal.removeEventListener("abort", cancel);
+          if (!controller.signal.aborted) {
+            streamController.close();
+          }
+        });
+    },
+    cancel,
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": EVENT_STREAM_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
+
+// Client side: read a run stream, calling `onFetch` per "fetch" event.
+// Resolves with the "done" response and rejects on "error".
+export async function readRunStream<TFetch, TResponse>(
+  response: Response,
+  onFetch: (fetched: TFetch) => void
+): Promise<TResponse> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      throw new Error("Run stream ended before the run finished");
+    }
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).trimStart());
+        }
+      }
+      const payload = JSON.parse(data.join("\n"));
+
+      if (event === "fetch") {
+        onFetch(payload);
+      } else if (event === "done") {
+        await reader.cancel();
+        return payload;
+      } else if (event === "error") {
+        await reader.cancel();
+        throw new Error(payload.error);
+      }
+    }
+  }
+}
@@ -0,0 +1,278 @@
+import type {
+  CacheStatus,
+  NetworkTimings,
+  PayloadSize,
+} from "@/app/lib/cache";
+import type { StoredRun } from "@/app/lib/run-store";
+
+export type ExportFormat = "csv" | "json" | "har";
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ["csv", "json", "har"];
+
+// The parts of a fetch route response the exporters read. Strategy-specific
+// fields are optional so any route's response fits.
+interface ExportableResult {
+  index: number;
+  latency: number;
+  cachedAt: number;
+  success: boolean;
+  error?: string;
+  cancelled?: boolean;
+  cacheStatus?: CacheStatus;
+  dataAge?: number;
+  networkTimings?: NetworkTimings;
+  socketReused?: boolean;
+  httpVersion?: string;
+  httpStatus?: number;
+  payload?: PayloadSize;
+}
+
+interface ExportableTrace {
+  name: string;
+  index: number;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  success: boolean;
+  error?: string;
+  queueWait?: number;
+}
+
+interface ExportableResponse {
+  mode: string;
+  fetchCount: number;
+  totalLatency: number;
+  results: ExportableResult[];
+  traces: ExportableTrace[];
+}
+
+function asExportable(run: StoredRun): ExportableResponse {
+  return run.response as unknown as ExportableResponse;
+}
+
+const CSV_COLUMNS = [
+  "run_id",
+  "created_at",
+  "strategy",
+  "mode",
+  "fetch_count",
+  "target_url",
+  "index",
+  "latency_ms",
+  "success",
+  "error",
+  "cancelled",
+  "cached_at",
+  "cache_status",
+  "data_age_ms",
+  "http_status",
+  "content_encoding",
+  "encoded_bytes",
+  "decoded_bytes",
+  "socket_reused",
+  "wait_ms",
+  "dns_ms",
+  "tcp_ms",
+  "tls_ms",
+  "request_ms",
+  "first_byte_ms",
+  "download_ms",
+  "total_ms",
+] as const;
+
+function csvCell(value: string | number | boolean | undefined): string {
+  if (value === undefined) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per FetchResult across all runs
+export function runsToCsv(runs: StoredRun[]): string {
+  const rows = runs.flatMap((run) => {
+    const response = asExportable(run);
+    return response.results.map((result) => {
+      const t = result.networkTimings;
+      return [
+        run.id,
+        run.createdAt,
+        run.strategy,
+        response.mode,
+        response.fetchCount,
+        run.target?.url,
+        result.index,
+        result.latency,
+        result.success,
+        result.error,
+        result.cancelled,
+        result.cachedAt || undefined,
+        result.cacheStatus,
+        result.dataAge,
+        result.httpStatus,
+        result.payload?.contentEncoding,
+        result.payload?.encodedBytes,
+        result.payload?.decodedBytes,
+        result.socketReused,
+        t?.wait,
+        t?.dns,
+        t?.tcp,
+        t?.tls,
+        t?.request,
+        t?.firstByte,
+        t?.download,
+        t?.total,
+      ]
+        .map(csvCell)
+        .join(",");
+    });
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+// HAR 1.2 timings: -1 marks a phase that does not apply or was not measured,
+// such as dns and connect on a reused connection. `connect` includes TLS, as
+// the spec requires.
+function toHarTimings(trace: ExportableTrace, result?: ExportableResult) {
+  const blocked = trace.queueWait ?? -1;
+  const t = result?.networkTimings;
+  if (!t) {
+    return {
+      blocked,
+      dns: -1,
+      connect: -1,
+      ssl: -1,
+      send: 0,
+      wait: trace.duration,
+      receive: 0,
+    };
+  }
+  return {
+    blocked: Math.max(blocked, 0) + t.wait,
+    dns: result.socketReused ? -1 : t.dns,
+    connect: result.socketReused ? -1 : t.tcp + t.tls,
+    ssl: t.tls || -1,
+    send: t.request,
+    wait: t.firstByte,
+    receive: t.download,
+  };
+}
+
+export function runsToHar(runs: StoredRun[]) {
+  const pages = runs.map((run) => {
+    const response = asExportable(run);
+    // Runs are stored when they finish; traces are relative to the start
+    const startedAt = new Date(run.createdAt).getTime() - response.totalLatency;
+    return {
+      startedDateTime: new Date(startedAt).toISOString(),
+      id: run.id,
+      title: `${run.strategy} ${response.mode} x${response.fetchCount}`,
+      pageTimings: { onContentLoad: -1, onLoad: response.totalLatency },
+    };
+  });
+
+  const entries = runs.flatMap((run, runIndex) => {
+    const response = asExportable(run);
+    const pageStart = new Date(pages[runIndex].startedDateTime).getTime();
+    const url = run.target?.url ?? "";
+    const method = run.target?.method ?? "GET";
+
+    return response.traces.map((trace) => {
+      const result = response.results[trace.index];
+      const timings = toHarTimings(trace, result);
+      const httpVersion = result?.httpVersion
+        ? `HTTP/${result.httpVersion}`
+        : "";
+      const payload = result?.payload;
+      const time = [
+        timings.blocked,
+        timings.dns,
+        timings.connect,
+        timings.send,
+        timings.wait,
+        timings.receive,
+      ]
+        .filter((value) => value > 0)
+        .reduce((sum, value) => sum + value, 0);
+
+      return {
+        pageref: run.id,
+        startedDateTime: new Date(
+          pageStart + trace.startTime - Math.max(trace.queueWait ?? 0, 0)
+        ).toISOString(),
+        time,
+        request: {
+          method,
+          url,
+          httpVersion,
+          cookies: [],
+          headers: [],
+          queryString: [],
+          headersSize: -1,
+          bodySize: -1,
+        },
+        response: {
+          status: trace.success
+            ? (result?.httpStatus ?? run.target?.expectedStatus ?? 200)
+            : 0,
+          statusText: trace.success ? "" : (trace.error ?? "Failed"),
+          httpVersion,
+          cookies: [],
+          headers: [],
+          content: {
+            size: payload?.decodedBytes ?? -1,
+            compression:
+              payload?.encodedBytes !== undefined
+                ? payload.decodedBytes - payload.encodedBytes
+                : undefined,
+            mimeType: "application/json",
+          },
+          redirectURL: "",
+          headersSize: -1,
+          bodySize: payload?.encodedBytes ?? -1,
+        },
+        cache: {},
+        timings,
+        comment: trace.name,
+      };
+    });
+  });
+
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "network-parallel-vs-sequence", version: "0.1.0" },
+      pages,
+      entries,
+    },
+  };
+}
+
+// Render runs in the requested format. A single run exports its raw response
+// for JSON; several runs export the stored records.
+export function exportRuns(
+  runs: StoredRun[],
+  format: ExportFormat,
+  single: boolean
+): { body: string; contentType: string; extension: string } {
+  switch (format) {
+    case "csv":
+      return {
+        body: runsToCsv(runs),
+        contentType: "text/csv; charset=utf-8",
+        extension: "csv",
+      };
+    case "json":
+      return {
+        body: JSON.stringify(single ? runs[0]?.response : runs, null, 2),
+        contentType: "application/json",
+        extension: "json",
+      };
+    case "har":
+      return {
+        body: JSON.stringify(runsToHar(runs), null, 2),
+        contentType: "application/json",
+        extension: "har",
+      };
+  }
+}
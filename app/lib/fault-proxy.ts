@@ -0,0 +1,109 @@
+// Path of the built-in fault-injection proxy. Like the mock upstream it may
+// be targeted with a relative URL.
+export const FAULT_PROXY_PATH = "/api/fault-proxy";
+
+export type Fault = "error" | "reset" | "timeout" | "slow";
+
+export interface FaultOptions {
+  upstream: string; // absolute, or relative to this app's origin
+  errorRate: number; // fraction answered with `errorStatus`
+  resetRate: number; // fraction whose connection is dropped mid-response
+  timeoutRate: number; // fraction that hang for `timeoutMs` then drop
+  slowRate: number; // fraction whose body drips out in small chunks
+  errorStatus: number;
+  timeoutMs: number;
+  dripBytes: number; // bytes per slow-body chunk
+  dripIntervalMs: number; // delay between slow-body chunks
+}
+
+export const DEFAULT_FAULT_OPTIONS: Omit<FaultOptions, "upstream"> = {
+  errorRate: 0,
+  resetRate: 0,
+  timeoutRate: 0,
+  slowRate: 0,
+  errorStatus: 503,
+  timeoutMs: 30_000,
+  dripBytes: 256,
+  dripIntervalMs: 50,
+};
+
+const RATE_FIELDS = ["errorRate", "resetRate", "timeoutRate", "slowRate"] as const;
+
+const INT_FIELDS = [
+  ["errorStatus", 500, 599],
+  ["timeoutMs", 0, 120_000],
+  ["dripBytes", 1, 1_000_000],
+  ["dripIntervalMs", 0, 10_000],
+] as const;
+
+export function parseFaultOptions(
+  params: URLSearchParams
+): { options: FaultOptions } | { error: string } {
+  const upstream = params.get("upstream");
+  if (!upstream) {
+    return { error: "upstream is required" };
+  }
+
+  const options: FaultOptions = { upstream, ...DEFAULT_FAULT_OPTIONS };
+
+  for (const field of RATE_FIELDS) {
+    const value = params.get(field);
+    if (value === null || value === "") continue;
+    const rate = Number(value);
+    if (!Number.isFinite(rate) || rate < 0 || rate > 1) {
+      return { error: `${field} must be between 0 and 1` };
+    }
+    options[field] = rate;
+  }
+  const totalRate = RATE_FIELDS.reduce((sum, field) => sum + options[field], 0);
+  if (totalRate > 1) {
+    return { error: "fault rates must add up to at most 1" };
+  }
+
+  for (const [field, min, max] of INT_FIELDS) {
+    const value = params.get(field);
+    if (value === null || value === "") continue;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      return { error: `${field} must be an integer between ${min} and ${max}` };
+    }
+    options[field] = parsed;
+  }
+
+  return { options };
+}
+
+// Relative target URL for the given options; defaults are left out
+export function buildFaultProxyUrl(options: FaultOptions): string {
+  const params = new URLSearchParams({ upstream: options.upstream });
+  for (const [field, value] of Object.entries(options)) {
+    if (
+      field !== "upstream" &&
+      value !== DEFAULT_FAULT_OPTIONS[field as keyof typeof DEFAULT_FAULT_OPTIONS]
+    ) {
+      params.set(field, String(value));
+    }
+  }
+  return `${FAULT_PROXY_PATH}?${params}`;
+}
+
+// One draw decides the fault, so the rates are exclusive
+export function pickFault(
+  options: FaultOptions,
+  random: () => number = Math.random
+): Fault | null {
+  const draw = random();
+  let threshold = 0;
+  for (const [fault, rate] of [
+    ["error", options.errorRate],
+    ["reset", options.resetRate],
+    ["timeout", options.timeoutRate],
+    ["slow", options.slowRate],
+  ] as const) {
+    threshold += rate;
+    if (draw < threshold) {
+      return fault;
+    }
+  }
+  return null;
+}
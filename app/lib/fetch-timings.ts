@@ -0,0 +1,221 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import diagnosticsChannel from "node:diagnostics_channel";
+import type { Socket } from "node:net";
+import type { FetchOutcome } from "@/app/lib/benchmark";
+import type { FetchTargetResult, NetworkTimings } from "@/app/lib/cache";
+
+// Points in time (performance.now()) seen for one measured fetch. Only the
+// first request is timed, so a redirect's follow-up does not overwrite it.
+interface FetchMarks {
+  start: number;
+  request?: object; // undici's request, once created
+  connectStart?: number;
+  lookup?: number;
+  connect?: number;
+  connected?: number;
+  socket?: Socket; // the connection this fetch opened
+  secure?: boolean;
+  requestStart?: number;
+  newConnection?: boolean; // sent over the connection it opened
+  socketReused?: boolean;
+  responseStart?: number;
+  end?: number;
+  // Response size as read off the connection
+  sentOn?: Socket;
+  bytesReadBefore?: number;
+  headerBytes?: number;
+  responseBytes?: number;
+}
+
+export interface MeasuredFetch<T> {
+  value: T;
+  // Missing when no request went out (e.g. a cache hit) or it did not finish
+  timings?: NetworkTimings;
+  socketReused?: boolean;
+  // Body bytes as received, chunked framing included. Only exact while the
+  // connection carries one response at a time, i.e. without pipelining.
+  encodedBodySize?: number;
+}
+
+const activeFetches = new AsyncLocalStorage<FetchMarks>();
+const requestMarks = new WeakMap<object, FetchMarks>();
+// Connections that have carried a request
+const usedSockets = new WeakSet<Socket>();
+
+interface RawResponseHead {
+  statusCode: number;
+  statusText: string;
+  headers: Buffer[]; // alternating raw names and values
+}
+
+// Size of the HTTP/1.1 status line and header block as sent
+function getHeadBytes({ statusCode, statusText, headers }: RawResponseHead) {
+  let bytes = Buffer.byteLength(`HTTP/1.1 ${statusCode} ${statusText}\r\n\r\n`);
+  for (let i = 0; i < headers.length; i += 2) {
+    bytes += headers[i].length + 2 + headers[i + 1].length + 2; // ": ", CRLF
+  }
+  return bytes;
+}
+
+// Both Node's fetch and the undici package publish their request lifecycle
+// on these channels. Requests are created, and connections opened, in the
+// async context of the fetch that caused them, so the store tells which
+// measured fetch they belong to. A request is sent from whichever context
+// freed its connection, so later events are matched by request instead.
+function subscribe<T>(channel: string, onMessage: (message: T) => void) {
+  diagnosticsChannel.subscribe(channel, (message) => onMessage(message as T));
+}
+
+subscribe("undici:request:create", ({ request }: { request: object }) => {
+  const marks = activeFetches.getStore();
+  if (marks && !marks.request) {
+    marks.request = request;
+    requestMarks.set(request, marks);
+  }
+});
+subscribe("undici:client:beforeConnect", () => {
+  const marks = activeFetches.getStore();
+  if (marks) {
+    marks.connectStart ??= performance.now();
+  }
+});
+// Plain TCP sockets are announced before connecting, which splits DNS from
+// TCP. TLS sockets are not (tls.connect has no channel), so over HTTPS the
+// DNS lookup, TCP connect and TLS handshake are one connect phase.
+subscribe("net.client.socket", ({ socket }: { socket: Socket }) => {
+  const marks = activeFetches.getStore();
+  if (!marks || marks.connectStart === undefined || marks.socket) {
+    return;
+  }
+  socket.once("lookup", () => {
+    marks.lookup ??= performance.now();
+  });
+  socket.once("connect", () => {
+    marks.connect ??= performance.now();
+  });
+});
+subscribe("undici:client:connected", ({ socket }: { socket: Socket }) => {
+  const marks = activeFetches.getStore();
+  if (marks && !marks.socket) {
+    marks.connected = performance.now();
+    marks.socket = socket;
+    marks.secure = "encrypted" in socket;
+  }
+});
+subscribe(
+  "undici:client:sendHeaders",
+  ({ request, socket }: { request: object; socket: Socket }) => {
+    const marks = requestMarks.get(request);
+    if (marks) {
+      marks.requestStart = performance.now();
+      marks.socketReused = usedSockets.has(socket);
+      marks.newConnection = !marks.socketReused && socket === marks.socket;
+      marks.sentOn = socket;
+      marks.bytesReadBefore = socket.bytesRead;
+    }
+    usedSockets.add(socket);
+  }
+);
+subscribe(
+  "undici:request:headers",
+  ({ request, response }: { request: object; response: RawResponseHead }) => {
+    const marks = requestMarks.get(request);
+    if (marks) {
+      marks.responseStart = performance.now();
+      marks.headerBytes = getHeadBytes(response);
+    }
+  }
+);
+subscribe("undici:request:trailers", ({ request }: { request: object }) => {
+  const marks = requestMarks.get(request);
+  if (marks) {
+    marks.end = performance.now();
+    if (marks.sentOn && marks.bytesReadBefore !== undefined) {
+      marks.responseBytes = marks.sentOn.bytesRead - marks.bytesReadBefore;
+    }
+  }
+});
+
+function toTimings(marks: FetchMarks): NetworkTimings | undefined {
+  const { start, requestStart, responseStart, end } = marks;
+  if (
+    requestStart === undefined ||
+    responseStart === undefined ||
+    end === undefined
+  ) {
+    return undefined;
+  }
+
+  // Connection phases only count when the fetch was sent over the
+  // connection it opened; otherwise it waited for a socket all along
+  let dns = 0;
+  let tcp = 0;
+  let tls = 0;
+  let request = 0;
+  let connectStart = requestStart;
+  if (marks.newConnection && marks.connectStart !== undefined) {
+    const connected = marks.connected!;
+    connectStart = marks.connectStart;
+    if (marks.connect === undefined) {
+      tcp = connected - connectStart;
+    } else {
+      const lookup = marks.lookup ?? connectStart;
+      dns = lookup - connectStart;
+      tcp = marks.connect - lookup;
+      tls = marks.secure ? connected - marks.connect : 0;
+    }
+    request = requestStart - connected;
+  }
+
+  return {
+    wait: connectStart - start,
+    dns,
+    tcp,
+    tls,
+    request,
+    firstByte: responseStart - requestStart,
+    download: end - responseStart,
+    total: end - start,
+  };
+}
+
+// Run `fetchData`, timing the network phases of the undici request it makes
+// (Node's fetch is built on undici). Concurrent calls are timed separately.
+export async function measureFetch<T>(
+  fetchData: () => Promise<T>
+): Promise<MeasuredFetch<T>> {
+  const marks: FetchMarks = { start: performance.now() };
+  const value = await activeFetches.run(marks, fetchData);
+  const timings = toTimings(marks);
+  const { responseBytes, headerBytes } = marks;
+  return {
+    value,
+    timings,
+    socketReused: timings && marks.socketReused,
+    encodedBodySize:
+      responseBytes !== undefined && headerBytes !== undefined
+        ? responseBytes - headerBytes
+        : undefined,
+  };
+}
+
+// Outcome of a measured upstream request. Node's fetch hides the encoded
+// size of a compressed body without Content-Length, so the size measured
+// off the connection stands in for it.
+export function toFetchOutcome({
+  value,
+  timings,
+  socketReused,
+  encodedBodySize,
+}: MeasuredFetch<FetchTargetResult>): FetchOutcome {
+  return {
+    cachedAt: value.fetchedAt,
+    networkTimings: timings,
+    socketReused,
+    httpStatus: value.status,
+    payload: {
+      ...value.payload,
+      encodedBytes: value.payload.encodedBytes ?? encodedBodySize,
+    },
+  };
+}
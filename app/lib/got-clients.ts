@@ -0,0 +1,85 @@
+import http from "node:http";
+import https from "node:https";
+import got, { type Got } from "got";
+
+export type GotTransport = "http1-fresh" | "http1-keepalive" | "http2";
+
+export const GOT_TRANSPORTS: readonly GotTransport[] = [
+  "http1-fresh",
+  "http1-keepalive",
+  "http2",
+];
+
+export interface GotTransportOptions {
+  transport: GotTransport;
+  maxSockets?: number; // only used by http1-keepalive
+}
+
+export const DEFAULT_GOT_TRANSPORT: GotTransportOptions = {
+  transport: "http1-fresh",
+};
+
+export const DEFAULT_MAX_SOCKETS = 10;
+
+// Keep-alive clients are shared per maxSockets value so every request with
+// the same settings draws from the same socket pool
+const keepAliveClients = new Map<number, Got>();
+
+// got reuses http2-wrapper's global agent, so sessions are shared across calls
+const http2Client = got.extend({ http2: true });
+
+export function getGotClient(options: GotTransportOptions): Got {
+  switch (options.transport) {
+    case "http1-keepalive": {
+      const maxSockets = options.maxSockets ?? DEFAULT_MAX_SOCKETS;
+      let client = keepAliveClients.get(maxSockets);
+      if (!client) {
+        client = got.extend({
+          http2: false,
+          agent: {
+            http: new http.Agent({ keepAlive: true, maxSockets }),
+            https: new https.Agent({ keepAlive: true, maxSockets }),
+          },
+        });
+        keepAliveClients.set(maxSockets, client);
+      }
+      return client;
+    }
+    case "http2":
+      return http2Client;
+    case "http1-fresh":
+      // Dedicated non-keep-alive agents guarantee a new connection per
+      // request (Node's global agent keeps sockets alive since v19)
+      return got.extend({
+        http2: false,
+        agent: {
+          http: new http.Agent({ keepAlive: false }),
+          https: new https.Agent({ keepAlive: false }),
+        },
+      });
+  }
+}
+
+export function parseGotTransport(
+  input: unknown,
+  maxSockets: unknown
+): { options: GotTransportOptions } | { error: string } {
+  if (input === undefined || input === null) {
+    return { options: DEFAULT_GOT_TRANSPORT };
+  }
+  if (!GOT_TRANSPORTS.includes(input as GotTransport)) {
+    return { error: `transport must be one of ${GOT_TRANSPORTS.join(", ")}` };
+  }
+  if (input !== "http1-keepalive" || maxSockets === undefined) {
+    return { options: { transport: input as GotTransport } };
+  }
+  if (
+    typeof maxSockets !== "number" ||
+    !Number.isInteger(maxSockets) ||
+    maxSockets < 1 ||
+    maxSockets > 100
+  ) {
+    return { error: "maxSockets must be an integer between 1 and 100" };
+  }
+  return { options: { transport: "http1-keepalive", maxSockets } };
+}
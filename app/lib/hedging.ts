@@ -0,0 +1,87 @@
+import { percentile } from "@/app/lib/stats";
+
+export interface HedgeOptions {
+  delayMs: number; // fixed delay, and the fallback while samples are few
+  percentile?: number; // hedge after this observed latency percentile
+}
+
+export const DEFAULT_HEDGE_OPTIONS: HedgeOptions = { delayMs: 50 };
+
+// One upstream request of a hedged fetch
+export interface HedgeSpan {
+  role: "primary" | "backup";
+  startTime: number; // relative to request start (ms)
+  endTime: number;
+  duration: number;
+  success: boolean;
+  error?: string;
+  won: boolean; // its response was the one used
+}
+
+// Successful primary latencies per target, newest last
+const SAMPLE_WINDOW = 200;
+const MIN_SAMPLES = 20;
+const observedLatencies = new Map<string, number[]>();
+
+export function recordHedgeSample(targetKey: string, latency: number) {
+  const samples = observedLatencies.get(targetKey) ?? [];
+  samples.push(latency);
+  if (samples.length > SAMPLE_WINDOW) {
+    samples.shift();
+  }
+  observedLatencies.set(targetKey, samples);
+}
+
+// The delay before a backup request is sent. With a percentile, it is that
+// percentile of recent latencies to the same target once enough samples
+// exist; until then, and without a percentile, it is the fixed delay.
+export function getHedgeDelay(
+  targetKey: string,
+  options: HedgeOptions
+): { delay: number; source: "fixed" | "percentile"; samples: number } {
+  const samples = observedLatencies.get(targetKey) ?? [];
+  if (options.percentile === undefined || samples.length < MIN_SAMPLES) {
+    return { delay: options.delayMs, source: "fixed", samples: samples.length };
+  }
+  return {
+    delay: percentile(samples, options.percentile),
+    source: "percentile",
+    samples: samples.length,
+  };
+}
+
+export function parseHedgeOptions(
+  input: unknown
+): { options: HedgeOptions } | { error: string } {
+  if (input === undefined || input === null) {
+    return { options: DEFAULT_HEDGE_OPTIONS };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "hedge must be an object" };
+  }
+  const raw = input as Record<string, unknown>;
+  const options: HedgeOptions = { ...DEFAULT_HEDGE_OPTIONS };
+
+  if (raw.delayMs !== undefined) {
+    if (
+      typeof raw.delayMs !== "number" ||
+      !Number.isInteger(raw.delayMs) ||
+      raw.delayMs < 0 ||
+      raw.delayMs > 60_000
+    ) {
+      return { error: "hedge.delayMs must be an integer between 0 and 60000" };
+    }
+    options.delayMs = raw.delayMs;
+  }
+  if (raw.percentile !== undefined) {
+    if (
+      typeof raw.percentile !== "number" ||
+      raw.percentile < 1 ||
+      raw.percentile > 99.9
+    ) {
+      return { error: "hedge.percentile must be between 1 and 99.9" };
+    }
+    options.percentile = raw.percentile;
+  }
+  return { options };
+}
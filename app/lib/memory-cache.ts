@@ -0,0 +1,144 @@
+import type { CacheStatus } from "@/app/lib/cache";
+
+export interface MemoryCacheOptions {
+  ttl: number; // seconds an entry is fresh
+  maxEntries: number; // least recently used entries are evicted beyond this
+  // Stale-while-revalidate only: seconds past the TTL that an entry may still
+  // be served while it refreshes
+  maxStale?: number;
+}
+
+export const DEFAULT_MAX_ENTRIES = 100;
+export const DEFAULT_MAX_STALE = 3600;
+
+export interface CacheRead<T> {
+  value: T;
+  cacheStatus: CacheStatus;
+}
+
+interface Entry<T> {
+  value: T;
+  storedAt: number; // epoch ms
+}
+
+// Process-local cache. A Map iterates in insertion order, so re-inserting
+// an entry on every read keeps the least recently used one first.
+export class MemoryCache<T> {
+  private entries = new Map<string, Entry<T>>();
+  // Keys with a background refresh under way
+  private refreshing = new Set<string>();
+
+  private read(key: string): Entry<T> | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private write(key: string, value: T, maxEntries: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: Date.now() });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  // LRU with TTL: an expired entry is a miss and is loaded again before
+  // answering
+  async get(
+    key: string,
+    options: MemoryCacheOptions,
+    load: () => Promise<T>
+  ): Promise<CacheRead<T>> {
+    const entry = this.read(key);
+    if (entry && Date.now() - entry.storedAt <= options.ttl * 1000) {
+      return { value: entry.value, cacheStatus: "hit" };
+    }
+    const value = await load();
+    this.write(key, value, options.maxEntries);
+    return { value, cacheStatus: "miss" };
+  }
+
+  // Stale-while-revalidate: an expired entry within `maxStale` is served as
+  // is while one background load refreshes it. A failed refresh keeps the
+  // stale entry; the next read tries again.
+  async getStaleWhileRevalidate(
+    key: string,
+    options: MemoryCacheOptions,
+    load: () => Promise<T>
+  ): Promise<CacheRead<T>> {
+    const entry = this.read(key);
+    const maxStale = options.maxStale ?? DEFAULT_MAX_STALE;
+    if (entry) {
+      const age = Date.now() - entry.storedAt;
+      if (age <= options.ttl * 1000) {
+        return { value: entry.value, cacheStatus: "hit" };
+      }
+      if (age <= (options.ttl + maxStale) * 1000) {
+        if (!this.refreshing.has(key)) {
+          this.refreshing.add(key);
+          load()
+            .then((value) => this.write(key, value, options.maxEntries))
+            .catch(() => undefined)
+            .finally(() => this.refreshing.delete(key));
+        }
+        return { value: entry.value, cacheStatus: "stale" };
+      }
+    }
+    const value = await load();
+    this.write(key, value, options.maxEntries);
+    return { value, cacheStatus: "miss" };
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+function parseSetting(
+  input: unknown,
+  name: string,
+  max: number,
+  fallback: number
+): number | { error: string } {
+  if (input === undefined || input === null) {
+    return fallback;
+  }
+  if (
+    typeof input !== "number" ||
+    !Number.isInteger(input) ||
+    input < 1 ||
+    input > max
+  ) {
+    return { error: `${name} must be an integer between 1 and ${max}` };
+  }
+  return input;
+}
+
+// `ttl` is parsed by the caller (cacheTtl, shared with unstable_cache)
+export function parseMemoryCacheOptions(
+  ttl: number,
+  maxEntries: unknown
+): { options: MemoryCacheOptions } | { error: string } {
+  const parsed = parseSetting(
+    maxEntries,
+    "maxEntries",
+    10000,
+    DEFAULT_MAX_ENTRIES
+  );
+  return typeof parsed === "number"
+    ? { options: { ttl, maxEntries: parsed } }
+    : parsed;
+}
+
+export function parseMaxStale(
+  input: unknown
+): { maxStale: number } | { error: string } {
+  const parsed = parseSetting(input, "maxStale", 86400, DEFAULT_MAX_STALE);
+  return typeof parsed === "number" ? { maxStale: parsed } : parsed;
+}
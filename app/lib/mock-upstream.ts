@@ -0,0 +1,151 @@
+import type { Wine } from "@/app/lib/cache";
+
+// Path of the built-in mock upstream. Targets may use it as a relative URL,
+// which the server resolves against its own origin.
+export const MOCK_UPSTREAM_PATH = "/api/mock-upstream";
+
+export type JitterDistribution = "uniform" | "normal" | "exponential";
+
+export const JITTER_DISTRIBUTIONS: readonly JitterDistribution[] = [
+  "uniform",
+  "normal",
+  "exponential",
+];
+
+export interface MockUpstreamOptions {
+  latency: number; // base response delay (ms)
+  jitter: number; // spread added to the delay (ms), shaped by `distribution`
+  distribution: JitterDistribution;
+  items: number; // wines in the response payload
+  // Requests the whole mock serves at once, across every client using the
+  // same value; the rest queue
+  serverConcurrency?: number;
+}
+
+export const DEFAULT_MOCK_UPSTREAM: MockUpstreamOptions = {
+  latency: 100,
+  jitter: 0,
+  distribution: "uniform",
+  items: 50,
+};
+
+const MAX_LATENCY_MS = 30_000;
+const MAX_ITEMS = 100_000;
+
+function parseBoundedInt(
+  value: string | null,
+  name: string,
+  min: number,
+  max: number
+): number | undefined | { error: string } {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    return { error: `${name} must be an integer between ${min} and ${max}` };
+  }
+  return parsed;
+}
+
+export function parseMockUpstreamOptions(
+  params: URLSearchParams
+): { options: MockUpstreamOptions } | { error: string } {
+  const latency = parseBoundedInt(
+    params.get("latency"),
+    "latency",
+    0,
+    MAX_LATENCY_MS
+  );
+  const jitter = parseBoundedInt(
+    params.get("jitter"),
+    "jitter",
+    0,
+    MAX_LATENCY_MS
+  );
+  const items = parseBoundedInt(params.get("items"), "items", 0, MAX_ITEMS);
+  const serverConcurrency = parseBoundedInt(
+    params.get("serverConcurrency"),
+    "serverConcurrency",
+    1,
+    1000
+  );
+  for (const parsed of [latency, jitter, items, serverConcurrency]) {
+    if (typeof parsed === "object") {
+      return parsed;
+    }
+  }
+
+  const distribution =
+    params.get("distribution") ?? DEFAULT_MOCK_UPSTREAM.distribution;
+  if (!JITTER_DISTRIBUTIONS.includes(distribution as JitterDistribution)) {
+    return {
+      error: `distribution must be one of ${JITTER_DISTRIBUTIONS.join(", ")}`,
+    };
+  }
+
+  return {
+    options: {
+      latency: (latency as number | undefined) ?? DEFAULT_MOCK_UPSTREAM.latency,
+      jitter: (jitter as number | undefined) ?? DEFAULT_MOCK_UPSTREAM.jitter,
+      distribution: distribution as JitterDistribution,
+      items: (items as number | undefined) ?? DEFAULT_MOCK_UPSTREAM.items,
+      serverConcurrency: serverConcurrency as number | undefined,
+    },
+  };
+}
+
+// Relative target URL for the given options
+export function buildMockUpstreamUrl(options: MockUpstreamOptions): string {
+  const params = new URLSearchParams({
+    latency: String(options.latency),
+    jitter: String(options.jitter),
+    distribution: options.distribution,
+    items: String(options.items),
+  });
+  if (options.serverConcurrency !== undefined) {
+    params.set("serverConcurrency", String(options.serverConcurrency));
+  }
+  return `${MOCK_UPSTREAM_PATH}?${params}`;
+}
+
+// Delay for one response. uniform spreads over [0, jitter]; normal uses
+// jitter as the standard deviation; exponential uses it as the mean, giving
+// the long tail typical of real services. Never negative.
+export function sampleLatency(
+  options: MockUpstreamOptions,
+  random: () => number = Math.random
+): number {
+  const { latency, jitter, distribution } = options;
+  if (jitter === 0) {
+    return latency;
+  }
+  switch (distribution) {
+    case "uniform":
+      return latency + random() * jitter;
+    case "normal": {
+      // Box-Muller
+      const u = 1 - random();
+      const v = random();
+      const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+      return Math.max(0, latency + z * jitter);
+    }
+    case "exponential":
+      return latency - Math.log(1 - random()) * jitter;
+  }
+}
+
+// Deterministic Wine[] payload; the same `items` always yields the same body
+export function generateWines(items: number): Wine[] {
+  return Array.from({ length: items }, (_, i) => ({
+    winery: `Mock Winery ${(i % 97) + 1}`,
+    wine: `Mock Red ${2000 + (i % 25)} No. ${i + 1}`,
+    rating: {
+      average: (3 + ((i * 7) % 20) / 10).toFixed(1),
+      reviews: `${((i * 37) % 900) + 10} ratings`,
+    },
+    location: "Mockland\n·\nLocal",
+    image: `https://images.example.com/wines/${i + 1}.png`,
+    id: i + 1,
+  }));
+}
@@ -0,0 +1,281 @@
+import { randomBytes } from "node:crypto";
+import type { NetworkTimings } from "@/app/lib/cache";
+import type { AttemptSpan } from "@/app/lib/retry-policy";
+import type { RunStrategy } from "@/app/lib/run-store";
+import type { BenchmarkTarget } from "@/app/lib/target";
+
+// Minimal OTLP/HTTP (JSON encoding) trace exporter. Export is enabled by the
+// standard OTEL_EXPORTER_OTLP_TRACES_ENDPOINT or OTEL_EXPORTER_OTLP_ENDPOINT
+// variables; OTEL_EXPORTER_OTLP_HEADERS and OTEL_SERVICE_NAME are honoured.
+
+// The parts of a fetch route TraceSpan the exporter reads
+interface ExportableSpan {
+  name: string;
+  index: number;
+  startTime: number; // relative to request start (ms)
+  endTime: number;
+  success: boolean;
+  error?: string;
+  queueWait?: number;
+  attempts?: AttemptSpan[];
+  networkTimings?: NetworkTimings;
+  socketReused?: boolean;
+}
+
+interface ExportableRun {
+  mode: string;
+  fetchCount: number;
+  totalLatency: number;
+  concurrency?: number;
+  traces: ExportableSpan[];
+}
+
+type AttributeValue = string | number | boolean;
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: ReturnType<typeof toAttributes>;
+  events?: {
+    name: string;
+    timeUnixNano: string;
+    attributes: ReturnType<typeof toAttributes>;
+  }[];
+  status: { code: number; message?: string };
+}
+
+const SPAN_KIND_SERVER = 2;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+const EXPORT_TIMEOUT_MS = 5000;
+
+function getTracesEndpoint(): string | null {
+  const tracesEndpoint = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
+  if (tracesEndpoint) {
+    return tracesEndpoint;
+  }
+  const endpoint = process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  return endpoint ? `${endpoint.replace(/\/$/, "")}/v1/traces` : null;
+}
+
+// "key1=value1,key2=value2", values URL-encoded per the OTLP spec
+function getExportHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (process.env.OTEL_EXPORTER_OTLP_HEADERS ?? "").split(",")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      headers[pair.slice(0, separator).trim()] = decodeURIComponent(
+        pair.slice(separator + 1).trim()
+      );
+    }
+  }
+  return headers;
+}
+
+function toAttributes(attributes: Record<string, AttributeValue | undefined>) {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, AttributeValue] => entry[1] !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value:
+        typeof value === "string"
+          ? { stringValue: value }
+          : typeof value === "boolean"
+            ? { boolValue: value }
+            : Number.isInteger(value)
+              ? { intValue: String(value) }
+              : { doubleValue: value },
+    }));
+}
+
+function toUnixNano(epochMs: number): string {
+  return (BigInt(Math.round(epochMs * 1000)) * BigInt(1000)).toString();
+}
+
+function newId(bytes: number): string {
+  return randomBytes(bytes).toString("hex");
+}
+
+// Network phases become events at the moment each phase finished, plus
+// duration attributes on the span
+function toPhaseEvents(spanStart: number, timings: NetworkTimings) {
+  const phases: (keyof NetworkTimings)[] = [
+    "wait",
+    "dns",
+    "tcp",
+    "tls",
+    "request",
+    "firstByte",
+    "download",
+  ];
+  let offset = 0;
+  return phases.map((phase) => {
+    offset += timings[phase];
+    return {
+      name: phase,
+      timeUnixNano: toUnixNano(spanStart + offset),
+      attributes: toAttributes({ "phase.duration_ms": timings[phase] }),
+    };
+  });
+}
+
+function toAttemptSpan(
+  attempt: AttemptSpan,
+  traceId: string,
+  parentSpanId: string,
+  requestStartEpoch: number
+): OtlpSpan {
+  return {
+    traceId,
+    spanId: newId(8),
+    parentSpanId,
+    name: `attempt-${attempt.attempt}`,
+    kind: SPAN_KIND_CLIENT,
+    startTimeUnixNano: toUnixNano(requestStartEpoch + attempt.startTime),
+    endTimeUnixNano: toUnixNano(requestStartEpoch + attempt.endTime),
+    attributes: toAttributes({
+      "http.request.resend_count": attempt.attempt - 1,
+      "benchmark.attempt.backoff_ms": attempt.backoff,
+    }),
+    status: attempt.success
+      ? { code: STATUS_OK }
+      : { code: STATUS_ERROR, message: attempt.error },
+  };
+}
+
+// The fetch span, followed by a child span per attempt when it was retried
+function toFetchSpans(
+  span: ExportableSpan,
+  traceId: string,
+  parentSpanId: string,
+  requestStartEpoch: number,
+  target: BenchmarkTarget
+): OtlpSpan[] {
+  const spanId = newId(8);
+  const spanStart = requestStartEpoch + span.startTime;
+  const timings = span.networkTimings;
+  const fetchSpan: OtlpSpan = {
+    traceId,
+    spanId,
+    parentSpanId,
+    name: span.name,
+    kind: SPAN_KIND_CLIENT,
+    startTimeUnixNano: toUnixNano(spanStart),
+    endTimeUnixNano: toUnixNano(requestStartEpoch + span.endTime),
+    attributes: toAttributes({
+      "http.request.method": target.method,
+      "url.full": target.url,
+      "benchmark.fetch.index": span.index,
+      "benchmark.fetch.queue_wait_ms": span.queueWait,
+      "benchmark.fetch.socket_reused": span.socketReused,
+      "benchmark.timing.dns_ms": timings?.dns,
+      "benchmark.timing.tcp_ms": timings?.tcp,
+      "benchmark.timing.tls_ms": timings?.tls,
+      "benchmark.timing.first_byte_ms": timings?.firstByte,
+      "benchmark.timing.download_ms": timings?.download,
+    }),
+    events: timings ? toPhaseEvents(spanStart, timings) : undefined,
+    status: span.success
+      ? { code: STATUS_OK }
+      : { code: STATUS_ERROR, message: span.error },
+  };
+  return [
+    fetchSpan,
+    ...(span.attempts ?? []).map((attempt) =>
+      toAttemptSpan(attempt, traceId, spanId, requestStartEpoch)
+    ),
+  ];
+}
+
+// Send one benchmark request as a trace: a parent span covering the whole
+// run with a child span per fetch. `requestStart` is the performance.now()
+// value the route measured its TraceSpan times against.
+export async function exportTrace(
+  strategy: RunStrategy,
+  run: ExportableRun,
+  target: BenchmarkTarget,
+  requestStart: number
+): Promise<void> {
+  const endpoint = getTracesEndpoint();
+  if (!endpoint) {
+    return;
+  }
+
+  const requestStartEpoch = performance.timeOrigin + requestStart;
+  const traceId = newId(16);
+  const rootSpanId = newId(8);
+  const rootSpan: OtlpSpan = {
+    traceId,
+    spanId: rootSpanId,
+    name: `benchmark ${strategy} ${run.mode}`,
+    kind: SPAN_KIND_SERVER,
+    startTimeUnixNano: toUnixNano(requestStartEpoch),
+    endTimeUnixNano: toUnixNano(requestStartEpoch + run.totalLatency),
+    attributes: toAttributes({
+      "benchmark.strategy": strategy,
+      "benchmark.mode": run.mode,
+      "benchmark.fetch_count": run.fetchCount,
+      "benchmark.concurrency": run.concurrency,
+      "url.full": target.url,
+    }),
+    status: run.traces.every((span) => span.success)
+      ? { code: STATUS_OK }
+      : { code: STATUS_ERROR, message: "One or more fetches failed" },
+  };
+
+  const body = {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toAttributes({
+            "service.name":
+              process.env.OTEL_SERVICE_NAME ?? "network-parallel-vs-sequence",
+          }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: "network-parallel-vs-sequence/benchmark" },
+            spans: [
+              rootSpan,
+              ...run.traces.flatMap((span) =>
+                toFetchSpans(span, traceId, rootSpanId, requestStartEpoch, target)
+              ),
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...getExportHeaders() },
+    body: JSON.stringify(body),
+    cache: "no-store",
+    signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`OTLP export failed with status ${response.status}`);
+  }
+}
+
+// Export without letting a collector failure fail the benchmark
+export async function recordTrace(
+  strategy: RunStrategy,
+  run: ExportableRun,
+  target: BenchmarkTarget,
+  requestStart: number
+): Promise<void> {
+  try {
+    await exportTrace(strategy, run, target, requestStart);
+  } catch (error) {
+    console.error("Failed to export trace:", error);
+  }
+}
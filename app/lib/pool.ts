@@ -0,0 +1,23 @@
+// Run `count` tasks with at most `concurrency` in flight at once. Workers
+// pull the next index from a shared queue, so results keep their index order
+// regardless of completion order.
+export async function runPooled<T>(
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<T>
+): Promise<T[]> {
+  const results = new Array<T>(count);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < count) {
+      const index = nextIndex++;
+      results[index] = await task(index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, count));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
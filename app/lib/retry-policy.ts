@@ -0,0 +1,288 @@
+export interface RetryPolicy {
+  maxRetries: number; // attempts after the first
+  attemptTimeoutMs?: number; // per attempt
+  deadlineMs?: number; // across all attempts and backoff
+  baseDelayMs: number; // backoff before the first retry, doubled each retry
+  maxDelayMs: number;
+  jitter: boolean; // "full jitter": a random delay between 0 and the backoff
+  retryableStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 0,
+  baseDelayMs: 100,
+  maxDelayMs: 2000,
+  jitter: true,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+// One try of a fetch, relative to the route's request start like TraceSpan
+export interface AttemptSpan {
+  attempt: number; // 1-based
+  startTime: number;
+  endTime: number;
+  duration: number;
+  success: boolean;
+  error?: string;
+  backoff?: number; // delay before the next attempt (ms)
+}
+
+// Thrown when the last allowed attempt failed; carries every attempt for
+// the trace, and the last attempt's error as its cause
+export class AttemptsFailedError extends Error {
+  constructor(
+    message: string,
+    readonly attempts: AttemptSpan[],
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = "AttemptsFailedError";
+  }
+}
+
+class AttemptTimeoutError extends Error {
+  constructor(reason: "timeout" | "deadline", ms: number) {
+    super(
+      reason === "timeout"
+        ? `Attempt timed out after ${ms}ms`
+        : `Deadline of ${ms}ms exceeded`
+    );
+    this.name = "AttemptTimeoutError";
+  }
+}
+
+function parseOptionalMs(
+  value: unknown,
+  name: string
+): number | undefined | { error: string } {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < 1 ||
+    value > 120_000
+  ) {
+    return { error: `policy.${name} must be an integer between 1 and 120000` };
+  }
+  return value;
+}
+
+// Validate an untrusted policy from a request body. A missing policy is
+// DEFAULT_RETRY_POLICY: a single attempt with no timeout.
+export function parseRetryPolicy(
+  input: unknown
+): { policy: RetryPolicy } | { error: string } {
+  if (input === undefined || input === null) {
+    return { policy: DEFAULT_RETRY_POLICY };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "policy must be an object" };
+  }
+  const raw = input as Record<string, unknown>;
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+  if (raw.maxRetries !== undefined) {
+    if (
+      typeof raw.maxRetries !== "number" ||
+      !Number.isInteger(raw.maxRetries) ||
+      raw.maxRetries < 0 ||
+      raw.maxRetries > 10
+    ) {
+      return { error: "policy.maxRetries must be an integer between 0 and 10" };
+    }
+    policy.maxRetries = raw.maxRetries;
+  }
+
+  for (const name of [
+    "attemptTimeoutMs",
+    "deadlineMs",
+    "baseDelayMs",
+    "maxDelayMs",
+  ] as const) {
+    const parsed = parseOptionalMs(raw[name], name);
+    if (typeof parsed === "object") {
+      return parsed;
+    }
+    if (parsed !== undefined) {
+      policy[name] = parsed;
+    }
+  }
+
+  if (raw.jitter !== undefined) {
+    if (typeof raw.jitter !== "boolean") {
+      return { error: "policy.jitter must be a boolean" };
+    }
+    policy.jitter = raw.jitter;
+  }
+
+  if (raw.retryableStatuses !== undefined) {
+    if (
+      !Array.isArray(raw.retryableStatuses) ||
+      !raw.retryableStatuses.every(
+        (status) =>
+          Number.isInteger(status) && status >= 100 && status <= 599
+      )
+    ) {
+      return { error: "policy.retryableStatuses must be HTTP status codes" };
+    }
+    policy.retryableStatuses = raw.retryableStatuses;
+  }
+
+  return { policy };
+}
+
+export function getBackoffDelay(
+  policy: RetryPolicy,
+  retry: number, // 1 for the first retry
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (retry - 1)
+  );
+  return policy.jitter ? random() * delay : delay;
+}
+
+// Errors carrying an HTTP status are retried only for the policy's statuses;
+// anything else (resets, timeouts, DNS failures) is a transport error and
+// always retried
+function isRetryable(policy: RetryPolicy, error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status !== "number" || policy.retryableStatuses.includes(status);
+}
+
+// Retries across a run's fetches; spans without attempts made one try
+export function countRetries(spans: { attempts?: AttemptSpan[] }[]): number {
+  return spans.reduce(
+    (sum, span) => sum + Math.max(0, (span.attempts?.length ?? 1) - 1),
+    0
+  );
+}
+
+// Resolves early, without error, when `signal` aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+// Run `attempt` under the policy. `now` returns the time relative to the
+// route's request start. Each attempt gets a signal that aborts on its
+// timeout, the overall deadline, or when the caller's `signal` aborts;
+// attempts that ignore the signal are still abandoned at that point. A
+// caller abort is never retried.
+export async function runWithPolicy<T>(
+  policy: RetryPolicy,
+  now: () => number,
+  attempt: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<{ value: T; attempts: AttemptSpan[] }> {
+  const attempts: AttemptSpan[] = [];
+  const deadlineAt =
+    policy.deadlineMs === undefined ? undefined : now() + policy.deadlineMs;
+
+  for (let n = 1; ; n++) {
+    if (signal?.aborted) {
+      throw new AttemptsFailedError(
+        errorMessage(signal.reason),
+        attempts,
+        signal.reason
+      );
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener("abort", onAbort);
+
+    const limits: { ms: number; reason: "timeout" | "deadline" }[] = [];
+    if (policy.attemptTimeoutMs !== undefined) {
+      limits.push({ ms: policy.attemptTimeoutMs, reason: "timeout" });
+    }
+    if (deadlineAt !== undefined) {
+      limits.push({ ms: Math.max(0, deadlineAt - now()), reason: "deadline" });
+    }
+    const limit = limits.sort((a, b) => a.ms - b.ms)[0];
+    const timer = limit
+      ? setTimeout(
+          () =>
+            controller.abort(
+              new AttemptTimeoutError(
+                limit.reason,
+                limit.reason === "timeout"
+                  ? policy.attemptTimeoutMs!
+                  : policy.deadlineMs!
+              )
+            ),
+          limit.ms
+        )
+      : undefined;
+
+    const startTime = now();
+    try {
+      const value = await Promise.race([
+        attempt(controller.signal),
+        new Promise<never>((_, reject) => {
+          controller.signal.addEventListener("abort", () =>
+            reject(controller.signal.reason)
+          );
+        }),
+      ]);
+      const endTime = now();
+      attempts.push({
+        attempt: n,
+        startTime,
+        endTime,
+        duration: endTime - startTime,
+        success: true,
+      });
+      return { value, attempts };
+    } catch (error) {
+      const endTime = now();
+      const message = errorMessage(error);
+      const span: AttemptSpan = {
+        attempt: n,
+        startTime,
+        endTime,
+        duration: endTime - startTime,
+        success: false,
+        error: message,
+      };
+      attempts.push(span);
+
+      const backoff = getBackoffDelay(policy, n);
+      const outOfTime =
+        deadlineAt !== undefined && endTime + backoff >= deadlineAt;
+      if (
+        signal?.aborted ||
+        n > policy.maxRetries ||
+        outOfTime ||
+        !isRetryable(policy, error)
+      ) {
+        throw new AttemptsFailedError(
+          n > 1 ? `${message} (after ${n} attempts)` : message,
+          attempts,
+          error
+        );
+      }
+      span.backoff = backoff;
+      await sleep(backoff, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { randomUUID } from "node:crypto";
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import type { BenchmarkTarget } from "@/app/lib/target";
+
+export type RunStrategy =
+  | "fetch"
+  | "fetch-nocache"
+  | "got"
+  | "hedged"
+  | "undici"
+  | "axios"
+  | "single-flight"
+  | "lru"
+  | "swr";
+
+export const RUN_STRATEGIES: readonly RunStrategy[] = [
+  "fetch",
+  "fetch-nocache",
+  "got",
+  "hedged",
+  "undici",
+  "axios",
+  "single-flight",
+  "lru",
+  "swr",
+];
+
+// Fields every fetch route response shares; the store only indexes these
+interface RunResponse {
+  mode: string;
+  fetchCount: number;
+  totalLatency: number;
+}
+
+export interface StoredRun<T extends RunResponse = RunResponse> {
+  id: string;
+  createdAt: string; // ISO timestamp
+  strategy: RunStrategy;
+  // Headers and body are left out so credentials never reach the store
+  target?: Pick<
+    BenchmarkTarget,
+    "url" | "method" | "expectedStatus" | "conditional"
+  >;
+  response: T;
+}
+
+export interface RunFilter {
+  strategy?: RunStrategy;
+  mode?: string;
+  from?: Date;
+  to?: Date;
+  offset?: number;
+  limit?: number;
+}
+
+// One JSON document per line, appended as runs complete
+function getStorePath(): string {
+  return (
+    process.env.RUN_STORE_PATH ?? path.join(process.cwd(), "data", "runs.jsonl")
+  );
+}
+
+// Rewrites (delete) and appends go through one queue so a delete never
+// drops a run that was appended while the file was being rewritten
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueWrite<T>(write: () => Promise<T>): Promise<T> {
+  const next = writeQueue.then(write, write);
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
+
+async function readRuns(): Promise<StoredRun[]> {
+  let contents: string;
+  try {
+    contents = await readFile(getStorePath(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const runs: StoredRun[] = [];
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      runs.push(JSON.parse(line));
+    } catch {
+      // Skip a partially written line rather than losing the whole history
+    }
+  }
+  return runs;
+}
+
+export async function saveRun<T extends RunResponse>(
+  strategy: RunStrategy,
+  response: T,
+  target?: BenchmarkTarget
+): Promise<StoredRun<T>> {
+  const run: StoredRun<T> = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    strategy,
+    target: target && {
+      url: target.url,
+      method: target.method,
+      expectedStatus: target.expectedStatus,
+      conditional: target.conditional,
+    },
+    response,
+  };
+  const storePath = getStorePath();
+  await enqueueWrite(async () => {
+    await mkdir(path.dirname(storePath), { recursive: true });
+    await appendFile(storePath, JSON.stringify(run) + "\n", "utf8");
+  });
+  return run;
+}
+
+// Persist a run without letting a storage failure fail the benchmark
+export async function recordRun<T extends RunResponse>(
+  strategy: RunStrategy,
+  response: T,
+  target?: BenchmarkTarget
+): Promise<void> {
+  try {
+    await saveRun(strategy, response, target);
+  } catch (error) {
+    console.error("Failed to record run:", error);
+  }
+}
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Read strategy/mode/from/to filters from a query string
+export function parseRunFilter(
+  params: URLSearchParams
+): { filter: RunFilter } | { error: string } {
+  const strategy = params.get("strategy") ?? undefined;
+  const mode = params.get("mode") ?? undefined;
+  const from = parseDate(params.get("from"));
+  const to = parseDate(params.get("to"));
+
+  if (strategy && !RUN_STRATEGIES.includes(strategy as RunStrategy)) {
+    return { error: `strategy must be one of ${RUN_STRATEGIES.join(", ")}` };
+  }
+  if (from === null || to === null) {
+    return { error: "from and to must be valid dates" };
+  }
+
+  return {
+    filter: { strategy: strategy as RunStrategy | undefined, mode, from, to },
+  };
+}
+
+// Newest first
+export async function listRuns(
+  filter: RunFilter = {}
+): Promise<{ runs: StoredRun[]; total: number }> {
+  const matching = (await readRuns())
+    .filter((run) => {
+      const createdAt = new Date(run.createdAt);
+      return (
+        (!filter.strategy || run.strategy === filter.strategy) &&
+        (!filter.mode || run.response.mode === filter.mode) &&
+        (!filter.from || createdAt >= filter.from) &&
+        (!filter.to || createdAt <= filter.to)
+      );
+    })
+    .reverse();
+
+  const offset = filter.offset ?? 0;
+  const limit = filter.limit ?? matching.length;
+  return {
+    runs: matching.slice(offset, offset + limit),
+    total: matching.length,
+  };
+}
+
+export async function getRun(id: string): Promise<StoredRun | null> {
+  return (await readRuns()).find((run) => run.id === id) ?? null;
+}
+
+export async function deleteRun(id: string): Promise<boolean> {
+  return enqueueWrite(async () => {
+    const runs = await readRuns();
+    const remaining = runs.filter((run) => run.id !== id);
+    if (remaining.length === runs.length) {
+      return false;
+    }
+    // Readers are not queued, so the store is replaced in one rename rather
+    // than rewritten in place, where a read could see it half written
+    const storePath = getStorePath();
+    const tempPath = `${storePath}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(
+        tempPath,
+        remaining.map((run) => JSON.stringify(run) + "\n").join(""),
+        "utf8"
+      );
+      await rename(tempPath, storePath);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,265 @@
+import type {
+  FetchOutcome,
+  FetchResult,
+  TraceSpan,
+} from "@/app/lib/benchmark";
+import { getUncachedWines, type FetchTargetResult } from "@/app/lib/cache";
+import { measureFetch, toFetchOutcome } from "@/app/lib/fetch-timings";
+import {
+  fillTemplate,
+  MAX_FAN_OUT,
+  readPath,
+  type PlannedStep,
+  type ScenarioMode,
+  type ScenarioStep,
+} from "@/app/lib/scenario";
+import { parseTarget } from "@/app/lib/target";
+
+export interface ScenarioResponse {
+  mode: ScenarioMode;
+  batchSize?: number; // batched only
+  results: FetchResult[];
+  // One span per request, named after its step; fan-out requests are
+  // "step[i]". `dependsOn` lists the spans each request waited for.
+  traces: TraceSpan[];
+  totalLatency: number;
+  requestCount: number;
+  failedCount: number;
+  // The chain of dependent requests that ended last, first to last. Its
+  // latency is what the scenario would take if nothing else held it up.
+  criticalPath: string[];
+  criticalPathLatency: number;
+}
+
+interface StepOutcome {
+  data: unknown;
+  spans: number[]; // trace indices of the step's requests
+  success: boolean;
+}
+
+// Walk back from the request that ended last through whichever dependency
+// ended last, i.e. the one it actually waited for
+function findCriticalPath(traces: TraceSpan[]): TraceSpan[] {
+  if (traces.length === 0) {
+    return [];
+  }
+  const latest = (spans: TraceSpan[]) =>
+    spans.reduce((a, b) => (b.endTime > a.endTime ? b : a));
+  const path = [latest(traces)];
+  while (path[0].dependsOn?.length) {
+    path.unshift(latest(path[0].dependsOn.map((index) => traces[index])));
+  }
+  return path;
+}
+
+// Run every request of a planned scenario in `mode`. Requests are uncached;
+// a request whose dependency failed is skipped and reported as failed.
+export async function runScenario(
+  plan: PlannedStep[],
+  mode: ScenarioMode,
+  batchSize: number,
+  origin: string
+): Promise<ScenarioResponse> {
+  const runStart = performance.now();
+  const now = () => performance.now() - runStart;
+  const results: FetchResult[] = [];
+  const traces: TraceSpan[] = [];
+  const data = new Map<string, unknown>();
+  const outcomes = new Map<string, Promise<StepOutcome>>();
+
+  let nextIndex = 0;
+
+  // A request that was never sent gets an empty span where it would have
+  // started
+  const recordUnsent = (
+    name: string,
+    dependsOn: number[],
+    error: string
+  ): StepOutcome => {
+    const index = nextIndex++;
+    const time = now();
+    results[index] = { index, latency: 0, cachedAt: 0, success: false, error };
+    traces[index] = {
+      name,
+      index,
+      startTime: time,
+      endTime: time,
+      duration: 0,
+      success: false,
+      error,
+      dependsOn,
+    };
+    return { data: undefined, spans: [index], success: false };
+  };
+
+  const sendRequest = async (
+    step: ScenarioStep,
+    name: string,
+    dependsOn: number[],
+    item: unknown
+  ): Promise<{ index: number; data?: unknown }> => {
+    // Indices follow send order
+    const index = nextIndex++;
+    const startTime = now();
+    let fetched: FetchTargetResult | undefined;
+    let outcome: FetchOutcome = {};
+    let error: string | undefined;
+    try {
+      const parsedTarget = parseTarget(
+        {
+          url: fillTemplate(step.url, data, item, true),
+          method: step.method,
+          headers:
+            step.headers &&
+            Object.fromEntries(
+              Object.entries(step.headers).map(([header, value]) => [
+                header,
+                fillTemplate(value, data, item, false),
+              ])
+            ),
+          body:
+            step.body === undefined
+              ? undefined
+              : fillTemplate(step.body, data, item, false),
+          expectedStatus: step.expectedStatus,
+        },
+        origin
+      );
+      if ("error" in parsedTarget) {
+        throw new Error(parsedTarget.error);
+      }
+      const measured = await measureFetch(() =>
+        getUncachedWines(parsedTarget.target)
+      );
+      fetched = measured.value;
+      outcome = toFetchOutcome(measured);
+    } catch (e) {
+      error = e instanceof Error ? e.message : "Unknown error";
+    }
+
+    const endTime = now();
+    const success = error === undefined;
+    results[index] = {
+      index,
+      latency: endTime - startTime,
+      cachedAt: outcome.cachedAt ?? 0,
+      success,
+      error,
+      networkTimings: outcome.networkTimings,
+      socketReused: outcome.socketReused,
+      httpStatus: outcome.httpStatus,
+      payload: outcome.payload,
+    };
+    traces[index] = {
+      name,
+      index,
+      startTime,
+      endTime,
+      duration: endTime - startTime,
+      success,
+      error,
+      networkTimings: outcome.networkTimings,
+      socketReused: outcome.socketReused,
+      dependsOn,
+    };
+    return { index, data: fetched?.data };
+  };
+
+  // The step's requests, with fan-out paced by the mode
+  const runStep = async ({
+    step,
+    dependencies,
+  }: PlannedStep): Promise<StepOutcome> => {
+    const deps = await Promise.all(dependencies.map((id) => outcomes.get(id)!));
+    const dependsOn = deps.flatMap((d) => d.spans);
+    const failed = dependencies.find((_, i) => !deps[i].success);
+    if (failed !== undefined) {
+      return recordUnsent(step.id, dependsOn, `skipped: '${failed}' failed`);
+    }
+
+    if (!step.forEach) {
+      const sent = await sendRequest(step, step.id, dependsOn, undefined);
+      data.set(step.id, sent.data);
+      return {
+        data: sent.data,
+        spans: [sent.index],
+        success: results[sent.index].success,
+      };
+    }
+
+    const [source, ...path] = step.forEach.split(".");
+    const items = readPath(data.get(source), path);
+    if (!Array.isArray(items) || items.length > MAX_FAN_OUT) {
+      return recordUnsent(
+        step.id,
+        dependsOn,
+        `forEach '${step.forEach}' is not an array of at most ${MAX_FAN_OUT} items`
+      );
+    }
+
+    const send = (item: unknown, i: number) =>
+      sendRequest(step, `${step.id}[${i}]`, dependsOn, item);
+    const sent: { index: number; data?: unknown }[] = [];
+    if (mode === "sequential") {
+      for (const [i, item] of items.entries()) {
+        sent.push(await send(item, i));
+      }
+    } else {
+      const chunk = mode === "batched" ? batchSize : items.length;
+      for (let start = 0; start < items.length; start += chunk) {
+        const batch = items.slice(start, start + chunk);
+        sent.push(
+          ...(await Promise.all(batch.map((item, i) => send(item, start + i))))
+        );
+      }
+    }
+    const stepData = sent.map((s) => s.data);
+    data.set(step.id, stepData);
+    return {
+      data: stepData,
+      spans: sent.map((s) => s.index),
+      success: sent.every((s) => results[s.index].success),
+    };
+  };
+
+  if (mode === "parallel") {
+    // The plan lists dependencies first, so their promises already exist
+    for (const planned of plan) {
+      outcomes.set(planned.step.id, runStep(planned));
+    }
+    await Promise.all(outcomes.values());
+  } else if (mode === "batched") {
+    const depth = Math.max(...plan.map((p) => p.level));
+    for (let level = 0; level <= depth; level++) {
+      const batch = plan.filter((p) => p.level === level);
+      for (const planned of batch) {
+        outcomes.set(planned.step.id, runStep(planned));
+      }
+      await Promise.all(batch.map((p) => outcomes.get(p.step.id)));
+    }
+  } else {
+    for (const planned of plan) {
+      const outcome = runStep(planned);
+      outcomes.set(planned.step.id, outcome);
+      await outcome;
+    }
+  }
+
+  const totalLatency = now();
+  const criticalPath = findCriticalPath(traces);
+  for (const span of criticalPath) {
+    span.critical = true;
+  }
+
+  return {
+    mode,
+    batchSize: mode === "batched" ? batchSize : undefined,
+    results,
+    traces,
+    totalLatency,
+    requestCount: results.length,
+    failedCount: results.filter((r) => !r.success).length,
+    criticalPath: criticalPath.map((span) => span.name),
+    criticalPathLatency: criticalPath.reduce((sum, s) => sum + s.duration, 0),
+  };
+}
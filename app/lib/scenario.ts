@@ -0,0 +1,241 @@
+// One request, or one request per element of an earlier response's array
+// with `forEach`. `url`, `headers` and `body` may use {{step.path}} to read
+// a field of an earlier step's response (e.g. {{list.0.id}}) and, with
+// `forEach`, {{item.path}} for the current element. A forEach step's
+// response is the array of its requests' responses.
+export interface ScenarioStep {
+  id: string;
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  expectedStatus?: number;
+  forEach?: string; // "step" or "step.path" naming an array
+  dependsOn?: string[]; // ordering only, for steps no template refers to
+}
+
+export interface Scenario {
+  steps: ScenarioStep[];
+}
+
+// sequential: one request at a time. parallel: every step starts as soon as
+// its dependencies finish. batched: dependency levels run one after another
+// and fan-out goes out `batchSize` requests at a time, like awaiting
+// Promise.all per level and per chunk.
+export type ScenarioMode = "sequential" | "parallel" | "batched";
+
+export const SCENARIO_MODES: readonly ScenarioMode[] = [
+  "sequential",
+  "parallel",
+  "batched",
+];
+
+export const DEFAULT_BATCH_SIZE = 5;
+
+const MAX_STEPS = 20;
+export const MAX_FAN_OUT = 100;
+
+// A wine list, then the details of every wine and, independently, the
+// ratings of the first one; the summary needs every detail
+export const EXAMPLE_SCENARIO: Scenario = {
+  steps: [
+    { id: "list", url: "/api/mock-upstream?latency=80&items=8" },
+    {
+      id: "details",
+      forEach: "list",
+      url: "/api/mock-upstream?latency=60&items=1&wine={{item.id}}",
+    },
+    {
+      id: "ratings",
+      url: "/api/mock-upstream?latency=150&items=1&wine={{list.0.id}}",
+    },
+    {
+      id: "summary",
+      url: "/api/mock-upstream?latency=40&items=1",
+      dependsOn: ["details"],
+    },
+  ],
+};
+
+const STEP_ID = /^[A-Za-z][\w-]*$/;
+const TEMPLATE = /\{\{\s*([A-Za-z][\w-]*)((?:\.[\w-]+)*)\s*\}\}/g;
+
+export interface PlannedStep {
+  step: ScenarioStep;
+  dependencies: string[];
+  level: number; // 0 for steps without dependencies
+}
+
+function getTemplateRefs(text: string | undefined): string[] {
+  return [...(text ?? "").matchAll(TEMPLATE)].map((match) => match[1]);
+}
+
+// Steps in dependency order, each after the steps it depends on
+function planScenario(
+  steps: ScenarioStep[]
+): { plan: PlannedStep[] } | { error: string } {
+  const ids = new Set(steps.map((s) => s.id));
+  const dependencies = new Map<string, string[]>();
+  for (const step of steps) {
+    const refs = [
+      step.url,
+      step.body,
+      ...Object.values(step.headers ?? {}),
+    ].flatMap(getTemplateRefs);
+    if (refs.includes("item") && !step.forEach) {
+      return { error: `step '${step.id}' uses {{item}} without forEach` };
+    }
+    const needed = [
+      ...refs.filter((ref) => ref !== "item"),
+      ...(step.forEach ? [step.forEach.split(".")[0]] : []),
+      ...(step.dependsOn ?? []),
+    ];
+    for (const ref of needed) {
+      if (!ids.has(ref)) {
+        return { error: `step '${step.id}' refers to unknown step '${ref}'` };
+      }
+      if (ref === step.id) {
+        return { error: `step '${step.id}' depends on itself` };
+      }
+    }
+    dependencies.set(step.id, [...new Set(needed)]);
+  }
+
+  // Kahn's algorithm, keeping declaration order among ready steps
+  const plan: PlannedStep[] = [];
+  const levels = new Map<string, number>();
+  let remaining = steps;
+  while (remaining.length > 0) {
+    const ready = remaining.filter((s) =>
+      dependencies.get(s.id)!.every((dep) => levels.has(dep))
+    );
+    if (ready.length === 0) {
+      return {
+        error: `steps ${remaining.map((s) => `'${s.id}'`).join(", ")} form a cycle`,
+      };
+    }
+    for (const step of ready) {
+      const deps = dependencies.get(step.id)!;
+      const level = Math.max(-1, ...deps.map((dep) => levels.get(dep)!)) + 1;
+      levels.set(step.id, level);
+      plan.push({ step, dependencies: deps, level });
+    }
+    remaining = remaining.filter((s) => !ready.includes(s));
+  }
+  return { plan };
+}
+
+function parseStep(input: unknown, index: number): ScenarioStep | string {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return `steps[${index}] must be an object`;
+  }
+  const raw = input as Record<string, unknown>;
+  if (typeof raw.id !== "string" || !STEP_ID.test(raw.id) || raw.id === "item") {
+    return `steps[${index}].id must be a name like 'list' (not 'item')`;
+  }
+  if (typeof raw.url !== "string") {
+    return `step '${raw.id}' needs a url`;
+  }
+  if (raw.forEach !== undefined && typeof raw.forEach !== "string") {
+    return `step '${raw.id}': forEach must name a step, e.g. 'list'`;
+  }
+  if (
+    raw.headers !== undefined &&
+    (typeof raw.headers !== "object" ||
+      raw.headers === null ||
+      Array.isArray(raw.headers) ||
+      Object.values(raw.headers).some((value) => typeof value !== "string"))
+  ) {
+    return `step '${raw.id}': headers must be an object of strings`;
+  }
+  if (raw.body !== undefined && typeof raw.body !== "string") {
+    return `step '${raw.id}': body must be a string`;
+  }
+  if (
+    raw.dependsOn !== undefined &&
+    (!Array.isArray(raw.dependsOn) ||
+      raw.dependsOn.some((dep) => typeof dep !== "string"))
+  ) {
+    return `step '${raw.id}': dependsOn must be a list of step ids`;
+  }
+  // The rest is checked per request by parseTarget, once templates are
+  // filled in
+  return raw as unknown as ScenarioStep;
+}
+
+export function parseScenario(
+  input: unknown
+): { plan: PlannedStep[] } | { error: string } {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { error: "scenario must be an object with a steps list" };
+  }
+  const { steps } = input as { steps?: unknown };
+  if (!Array.isArray(steps) || steps.length === 0 || steps.length > MAX_STEPS) {
+    return { error: `scenario.steps must list 1-${MAX_STEPS} steps` };
+  }
+
+  const parsed: ScenarioStep[] = [];
+  for (const [index, step] of steps.entries()) {
+    const result = parseStep(step, index);
+    if (typeof result === "string") {
+      return { error: result };
+    }
+    if (parsed.some((s) => s.id === result.id)) {
+      return { error: `step id '${result.id}' is used twice` };
+    }
+    parsed.push(result);
+  }
+
+  return planScenario(parsed);
+}
+
+export function parseScenarioMode(
+  mode: unknown,
+  batchSize: unknown
+): { mode: ScenarioMode; batchSize?: number } | { error: string } {
+  if (!SCENARIO_MODES.includes(mode as ScenarioMode)) {
+    return { error: `mode must be one of ${SCENARIO_MODES.join(", ")}` };
+  }
+  if (mode !== "batched") {
+    return { mode: mode as ScenarioMode };
+  }
+  const size = batchSize ?? DEFAULT_BATCH_SIZE;
+  if (
+    typeof size !== "number" ||
+    !Number.isInteger(size) ||
+    size < 1 ||
+    size > MAX_FAN_OUT
+  ) {
+    return { error: `batchSize must be an integer between 1 and ${MAX_FAN_OUT}` };
+  }
+  return { mode: "batched", batchSize: size };
+}
+
+// Follow a dotted path such as "0.id" into parsed JSON
+export function readPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (typeof current !== "object" || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+// Fill in {{step.path}} and {{item.path}}; `encode` escapes values for a URL
+export function fillTemplate(
+  text: string,
+  data: Map<string, unknown>,
+  item: unknown,
+  encode: boolean
+): string {
+  return text.replace(TEMPLATE, (placeholder, ref: string, path: string) => {
+    const source = ref === "item" ? item : data.get(ref);
+    const value = readPath(source, path.split(".").slice(1));
+    if (value === undefined || value === null || typeof value === "object") {
+      throw new Error(`${placeholder.trim()} has no value`);
+    }
+    return encode ? encodeURIComponent(String(value)) : String(value);
+  });
+}
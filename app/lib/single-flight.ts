@@ -0,0 +1,21 @@
+// Calls in flight by key. An entry is removed as soon as its call settles,
+// so only callers that overlap with it share its result.
+const inFlight = new Map<string, Promise<unknown>>();
+
+export interface Flight<T> {
+  promise: Promise<T>;
+  shared: boolean; // joined a call another caller started
+}
+
+// Start `call` unless a call with the same key is already in flight, in
+// which case join that one instead. Failures are shared the same way.
+export function singleFlight<T>(key: string, call: () => Promise<T>): Flight<T> {
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) {
+    return { promise: pending, shared: true };
+  }
+
+  const promise = call().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return { promise, shared: false };
+}
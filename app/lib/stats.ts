@@ -0,0 +1,176 @@
+import type { NetworkTimings } from "@/app/lib/cache";
+
+export interface SummaryStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  stddev: number; // population standard deviation
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+export type NetworkTimingStats = Record<keyof NetworkTimings, SummaryStats>;
+
+const TIMING_PHASES: (keyof NetworkTimings)[] = [
+  "wait",
+  "dns",
+  "tcp",
+  "tls",
+  "request",
+  "firstByte",
+  "download",
+  "total",
+];
+
+// Percentile using linear interpolation between closest ranks. `p` is in the
+// range 0-100; returns 0 for an empty sample.
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return percentileOfSorted(sorted, p);
+}
+
+function percentileOfSorted(sorted: number[], p: number): number {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  if (lower === upper) {
+    return sorted[lower];
+  }
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : 0;
+}
+
+export function stddev(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - avg) ** 2)));
+}
+
+export function summarize(values: number[]): SummaryStats {
+  if (values.length === 0) {
+    return {
+      count: 0,
+      min: 0,
+      max: 0,
+      mean: 0,
+      stddev: 0,
+      p50: 0,
+      p90: 0,
+      p95: 0,
+      p99: 0,
+    };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: mean(sorted),
+    stddev: stddev(sorted),
+    p50: percentileOfSorted(sorted, 50),
+    p90: percentileOfSorted(sorted, 90),
+    p95: percentileOfSorted(sorted, 95),
+    p99: percentileOfSorted(sorted, 99),
+  };
+}
+
+export function summarizeTimings(timings: NetworkTimings[]): NetworkTimingStats {
+  return Object.fromEntries(
+    TIMING_PHASES.map((phase) => [
+      phase,
+      summarize(timings.map((t) => t[phase])),
+    ])
+  ) as NetworkTimingStats;
+}
+
+export interface SpeedupEstimate {
+  speedup: number; // mean(baseline) / mean(candidate); > 1 means candidate is faster
+  ciLow: number;
+  ciHigh: number;
+  confidence: number;
+  pValue: number; // two-sided permutation test on the difference of means
+}
+
+function resample(values: number[], random: () => number): number[] {
+  return values.map(() => values[Math.floor(random() * values.length)]);
+}
+
+// Percentile bootstrap confidence interval for the ratio of mean latencies,
+// resampling each group independently.
+export function bootstrapSpeedup(
+  baseline: number[],
+  candidate: number[],
+  {
+    iterations = 2000,
+    confidence = 0.95,
+    random = Math.random,
+  }: { iterations?: number; confidence?: number; random?: () => number } = {}
+): SpeedupEstimate {
+  const candidateMean = mean(candidate);
+  const speedup = candidateMean > 0 ? mean(baseline) / candidateMean : 0;
+
+  const ratios: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    const resampledCandidate = mean(resample(candidate, random));
+    if (resampledCandidate > 0) {
+      ratios.push(mean(resample(baseline, random)) / resampledCandidate);
+    }
+  }
+
+  const alpha = (1 - confidence) / 2;
+  return {
+    speedup,
+    ciLow: percentile(ratios, alpha * 100),
+    ciHigh: percentile(ratios, (1 - alpha) * 100),
+    confidence,
+    pValue: permutationTest(baseline, candidate, { iterations, random }),
+  };
+}
+
+// Two-sided permutation test: how often does a random relabelling of the
+// pooled samples produce a difference of means at least as large as observed?
+export function permutationTest(
+  a: number[],
+  b: number[],
+  {
+    iterations = 2000,
+    random = Math.random,
+  }: { iterations?: number; random?: () => number } = {}
+): number {
+  if (a.length === 0 || b.length === 0) {
+    return 1;
+  }
+  const observed = Math.abs(mean(a) - mean(b));
+  const pooled = [...a, ...b];
+  let extreme = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    // Fisher-Yates shuffle
+    for (let j = pooled.length - 1; j > 0; j--) {
+      const k = Math.floor(random() * (j + 1));
+      [pooled[j], pooled[k]] = [pooled[k], pooled[j]];
+    }
+    const diff = Math.abs(
+      mean(pooled.slice(0, a.length)) - mean(pooled.slice(a.length))
+    );
+    if (diff >= observed) {
+      extreme++;
+    }
+  }
+
+  // Add-one smoothing keeps the estimate away from an impossible p = 0
+  return (extreme + 1) / (iterations + 1);
+}
@@ -0,0 +1,16 @@
+import type { FetchStrategy } from "@/app/lib/benchmark";
+import { getWinesWithAxios } from "@/app/lib/cache";
+
+// axios with its default Node http adapter
+export const axiosStrategy: FetchStrategy<null> = {
+  id: "axios",
+  prepare: () => ({ context: null }),
+  fetch: async (target, _context, signal) => {
+    const fetched = await getWinesWithAxios(target, signal);
+    return {
+      cachedAt: fetched.fetchedAt,
+      httpStatus: fetched.status,
+      payload: fetched.payload,
+    };
+  },
+};
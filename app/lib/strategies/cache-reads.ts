@@ -0,0 +1,55 @@
+import type {
+  FetchOutcome,
+  FetchResult,
+  StrategySummary,
+} from "@/app/lib/benchmark";
+import type { CachedFetchResult, CacheStatus } from "@/app/lib/cache";
+import { measureFetch, toFetchOutcome } from "@/app/lib/fetch-timings";
+
+// Shared by the cache strategies. Cache hits make no request, so only
+// misses have network timings and a payload.
+export async function measureCacheRead(
+  read: () => Promise<CachedFetchResult>
+): Promise<FetchOutcome> {
+  const measured = await measureFetch(read);
+  const { value } = measured;
+  return {
+    ...(value.cacheStatus === "miss"
+      ? toFetchOutcome(measured)
+      : { cachedAt: value.fetchedAt }),
+    cacheStatus: value.cacheStatus,
+    dataAge: Date.now() - value.fetchedAt,
+  };
+}
+
+// The run is hot when every answered fetch was served from the cache
+export function summarizeCacheReads(results: FetchResult[]): StrategySummary {
+  const answered = results.filter((r) => r.cacheStatus !== undefined);
+  const cacheCounts: Record<CacheStatus, number> = {
+    hit: 0,
+    stale: 0,
+    miss: 0,
+  };
+  for (const result of answered) {
+    cacheCounts[result.cacheStatus!]++;
+  }
+
+  let cacheStatus: "hot" | "cold" | "unknown" = "unknown";
+  if (answered.length > 0) {
+    cacheStatus = cacheCounts.miss > 0 ? "cold" : "hot";
+  }
+
+  return {
+    cacheStatus,
+    firstFetchLatency: results[0]?.latency || 0,
+    cacheCounts,
+    hitRatio:
+      answered.length > 0
+        ? (cacheCounts.hit + cacheCounts.stale) / answered.length
+        : undefined,
+    maxDataAge:
+      answered.length > 0
+        ? Math.max(...answered.map((r) => r.dataAge!))
+        : undefined,
+  };
+}
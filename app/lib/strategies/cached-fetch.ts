@@ -0,0 +1,21 @@
+import type { FetchStrategy } from "@/app/lib/benchmark";
+import { getCachedWines, parseCacheTtl } from "@/app/lib/cache";
+import {
+  measureCacheRead,
+  summarizeCacheReads,
+} from "@/app/lib/strategies/cache-reads";
+
+// fetch through Next's data cache (unstable_cache); the context is the TTL
+export const cachedFetchStrategy: FetchStrategy<number> = {
+  id: "fetch",
+  prepare: (body) => {
+    const parsed = parseCacheTtl(body.cacheTtl);
+    return "error" in parsed ? parsed : { context: parsed.ttl };
+  },
+  // The cache cannot be cancelled; the retry policy stops waiting instead
+  fetch: (target, ttl) => measureCacheRead(() => getCachedWines(target, ttl)),
+  summarize: ({ results }, ttl) => ({
+    cacheTtl: ttl,
+    ...summarizeCacheReads(results),
+  }),
+};
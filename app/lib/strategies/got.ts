@@ -0,0 +1,34 @@
+import type { FetchStrategy } from "@/app/lib/benchmark";
+import { getWinesWithTimings } from "@/app/lib/cache";
+import {
+  DEFAULT_MAX_SOCKETS,
+  parseGotTransport,
+  type GotTransportOptions,
+} from "@/app/lib/got-clients";
+
+// got over the requested transport, with network phase timings
+export const gotStrategy: FetchStrategy<GotTransportOptions> = {
+  id: "got",
+  prepare: (body) => {
+    const parsed = parseGotTransport(body.transport, body.maxSockets);
+    return "error" in parsed ? parsed : { context: parsed.options };
+  },
+  fetch: async (target, transport, signal) => {
+    const fetched = await getWinesWithTimings(target, transport, signal);
+    return {
+      cachedAt: fetched.fetchedAt,
+      networkTimings: fetched.timings,
+      socketReused: fetched.socketReused,
+      httpVersion: fetched.httpVersion,
+      httpStatus: fetched.status,
+      payload: fetched.payload,
+    };
+  },
+  summarize: (_run, transport) => ({
+    transport: transport.transport,
+    maxSockets:
+      transport.transport === "http1-keepalive"
+        ? (transport.maxSockets ?? DEFAULT_MAX_SOCKETS)
+        : undefined,
+  }),
+};
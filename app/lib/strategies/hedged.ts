@@ -0,0 +1,152 @@
+import { FailedFetchError, type FetchStrategy } from "@/app/lib/benchmark";
+import { getUncachedWines, type FetchTargetResult } from "@/app/lib/cache";
+import {
+  measureFetch,
+  toFetchOutcome,
+  type MeasuredFetch,
+} from "@/app/lib/fetch-timings";
+import {
+  getHedgeDelay,
+  parseHedgeOptions,
+  recordHedgeSample,
+  type HedgeOptions,
+  type HedgeSpan,
+} from "@/app/lib/hedging";
+import { sleep } from "@/app/lib/retry-policy";
+import { summarize } from "@/app/lib/stats";
+import { getTargetKey } from "@/app/lib/target";
+
+interface HedgedRun {
+  hedge: HedgeOptions;
+  targetKey: string;
+  // Fixed for the run so every fetch hedges at the same point
+  delay: number;
+  source: "fixed" | "percentile";
+  // Losing requests, which finish after their fetch
+  stragglers: Promise<unknown>[];
+  requestsSent: number; // including those of retried and cancelled fetches
+}
+
+// Uncached fetch that sends a backup request if the primary has not settled
+// after the hedge delay. The first success is used. The losing request is
+// not cancelled: it runs to completion so the primary's latency stays a true
+// "without hedging" measurement.
+export const hedgedStrategy: FetchStrategy<HedgedRun> = {
+  id: "hedged",
+  prepare: (body, target) => {
+    const parsed = parseHedgeOptions(body.hedge);
+    if ("error" in parsed) {
+      return parsed;
+    }
+    const targetKey = getTargetKey(target);
+    const { delay, source } = getHedgeDelay(targetKey, parsed.options);
+    return {
+      context: {
+        hedge: parsed.options,
+        targetKey,
+        delay,
+        source,
+        stragglers: [],
+        requestsSent: 0,
+      },
+    };
+  },
+  fetch: async (target, run, signal, now) => {
+    const hedges: HedgeSpan[] = [];
+    const measured = new Map<HedgeSpan, MeasuredFetch<FetchTargetResult>>();
+
+    const send = (role: HedgeSpan["role"]): Promise<HedgeSpan> => {
+      const span: HedgeSpan = {
+        role,
+        startTime: now(),
+        endTime: 0,
+        duration: 0,
+        success: false,
+        won: false,
+      };
+      hedges.push(span);
+      run.requestsSent++;
+      const settle = (error?: unknown) => {
+        span.endTime = now();
+        span.duration = span.endTime - span.startTime;
+        span.success = error === undefined;
+        if (error !== undefined) {
+          span.error = error instanceof Error ? error.message : "Unknown error";
+          throw error;
+        }
+        return span;
+      };
+      return measureFetch(() => getUncachedWines(target, signal)).then(
+        (fetched) => {
+          measured.set(span, fetched);
+          return settle();
+        },
+        settle
+      );
+    };
+
+    const requests = [send("primary")];
+    const primarySettled = requests[0].then(
+      () => true,
+      () => true
+    );
+    // Stops the hedge timer once the primary settles, so no timer outlives it
+    const delay = new AbortController();
+    primarySettled.then(() => delay.abort());
+    const settledBeforeDelay = await Promise.race([
+      primarySettled,
+      sleep(run.delay, delay.signal).then(() => false),
+    ]);
+    if (!settledBeforeDelay && !signal.aborted) {
+      requests.push(send("backup"));
+    }
+    run.stragglers.push(Promise.allSettled(requests));
+    const hedged = requests.length > 1;
+
+    try {
+      const winner = await Promise.any(requests);
+      winner.won = true;
+      // The fetch's phases and payload are those of the request that won
+      return {
+        ...toFetchOutcome(measured.get(winner)!),
+        hedged,
+        winner: winner.role,
+        hedges,
+      };
+    } catch (error) {
+      const errors = error instanceof AggregateError ? error.errors : [error];
+      throw new FailedFetchError(errors[errors.length - 1], {
+        hedged,
+        hedges,
+      });
+    }
+  },
+  summarize: async ({ results, traces, latencyStats }, run) => {
+    // Losing requests finish after the run; their spans are complete after this
+    await Promise.all(run.stragglers);
+
+    const primaries = traces
+      .map((t) => t.hedges?.[0])
+      .filter((span): span is HedgeSpan => span?.success === true);
+    for (const span of primaries) {
+      recordHedgeSample(run.targetKey, span.duration);
+    }
+    const unhedgedLatencyStats = summarize(primaries.map((s) => s.duration));
+    const { requestsSent } = run;
+
+    return {
+      hedge: run.hedge,
+      hedgeDelay: run.delay,
+      hedgeDelaySource: run.source,
+      requestsSent,
+      extraLoad: requestsSent / results.length - 1,
+      hedgesWon: results.filter((r) => r.winner === "backup").length,
+      unhedgedLatencyStats,
+      tailGain: {
+        p50: unhedgedLatencyStats.p50 - latencyStats.p50,
+        p95: unhedgedLatencyStats.p95 - latencyStats.p95,
+        p99: unhedgedLatencyStats.p99 - latencyStats.p99,
+      },
+    };
+  },
+};
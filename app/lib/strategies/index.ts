@@ -0,0 +1,25 @@
+import type { FetchStrategy } from "@/app/lib/benchmark";
+import type { RunStrategy } from "@/app/lib/run-store";
+import { axiosStrategy } from "@/app/lib/strategies/axios";
+import { cachedFetchStrategy } from "@/app/lib/strategies/cached-fetch";
+import { gotStrategy } from "@/app/lib/strategies/got";
+import { hedgedStrategy } from "@/app/lib/strategies/hedged";
+import { lruCacheStrategy } from "@/app/lib/strategies/lru-cache";
+import { singleFlightStrategy } from "@/app/lib/strategies/single-flight";
+import { swrCacheStrategy } from "@/app/lib/strategies/swr-cache";
+import { uncachedFetchStrategy } from "@/app/lib/strategies/uncached-fetch";
+import { undiciStrategy } from "@/app/lib/strategies/undici";
+
+// Every benchmark strategy by id. A new client needs an id in RunStrategy,
+// an entry here and a route that hands requests to handleBenchmarkRequest.
+export const FETCH_STRATEGIES: Record<RunStrategy, FetchStrategy> = {
+  fetch: cachedFetchStrategy,
+  "fetch-nocache": uncachedFetchStrategy,
+  got: gotStrategy,
+  hedged: hedgedStrategy,
+  undici: undiciStrategy,
+  axios: axiosStrategy,
+  "single-flight": singleFlightStrategy,
+  lru: lruCacheStrategy,
+  swr: swrCacheStrategy,
+};
@@ -0,0 +1,31 @@
+import type { FetchStrategy } from "@/app/lib/benchmark";
+import { getLruCachedWines, parseCacheTtl } from "@/app/lib/cache";
+import {
+  parseMemoryCacheOptions,
+  type MemoryCacheOptions,
+} from "@/app/lib/memory-cache";
+import {
+  measureCacheRead,
+  summarizeCacheReads,
+} from "@/app/lib/strategies/cache-reads";
+
+// Process-local LRU cache with a TTL
+export const lruCacheStrategy: FetchStrategy<MemoryCacheOptions> = {
+  id: "lru",
+  prepare: (body) => {
+    const parsedTtl = parseCacheTtl(body.cacheTtl);
+    if ("error" in parsedTtl) {
+      return parsedTtl;
+    }
+    const parsed = parseMemoryCacheOptions(parsedTtl.ttl, body.maxEntries);
+    return "error" in parsed ? parsed : { context: parsed.options };
+  },
+  // Loads are shared with later reads, so they are not cancelled
+  fetch: (target, options) =>
+    measureCacheRead(() => getLruCachedWines(target, options)),
+  summarize: ({ results }, options) => ({
+    cacheTtl: options.ttl,
+    memoryCache: options,
+    ...summarizeCacheReads(results),
+  }),
+};
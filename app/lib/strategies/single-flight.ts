@@ -0,0 +1,40 @@
+import { FailedFetchError, type FetchStrategy } from "@/app/lib/benchmark";
+import { getUncachedWines } from "@/app/lib/cache";
+import { measureFetch, toFetchOutcome } from "@/app/lib/fetch-timings";
+import { singleFlight } from "@/app/lib/single-flight";
+import { getTargetKey } from "@/app/lib/target";
+
+interface SingleFlightRun {
+  targetKey: string;
+  upstreamCalls: number; // including those of retried fetches
+}
+
+// Uncached fetch where concurrent fetches of the same target share one
+// upstream call. Only the fetch that made the call has network timings and
+// a payload.
+export const singleFlightStrategy: FetchStrategy<SingleFlightRun> = {
+  id: "single-flight",
+  prepare: (_body, target) => ({
+    context: { targetKey: getTargetKey(target), upstreamCalls: 0 },
+  }),
+  // The shared call outlives any one fetch, so it is never cancelled; the
+  // retry policy stops waiting instead
+  fetch: async (target, run) => {
+    const { promise, shared } = singleFlight(run.targetKey, () => {
+      run.upstreamCalls++;
+      return measureFetch(() => getUncachedWines(target));
+    });
+    try {
+      const measured = await promise;
+      return shared
+        ? { cachedAt: measured.value.fetchedAt, coalesced: true }
+        : { ...toFetchOutcome(measured), coalesced: false };
+    } catch (error) {
+      throw new FailedFetchError(error, { coalesced: shared });
+    }
+  },
+  summarize: ({ results }, run) => ({
+    upstreamCalls: run.upstreamCalls,
+    coalescedCount: results.filter((r) => r.coalesced).length,
+  }),
+};
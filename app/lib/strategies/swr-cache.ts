@@ -0,0 +1,41 @@
+import type { FetchStrategy } from "@/app/lib/benchmark";
+import { getSwrCachedWines, parseCacheTtl } from "@/app/lib/cache";
+import {
+  parseMaxStale,
+  parseMemoryCacheOptions,
+  type MemoryCacheOptions,
+} from "@/app/lib/memory-cache";
+import {
+  measureCacheRead,
+  summarizeCacheReads,
+} from "@/app/lib/strategies/cache-reads";
+
+// Process-local stale-while-revalidate cache
+export const swrCacheStrategy: FetchStrategy<MemoryCacheOptions> = {
+  id: "swr",
+  prepare: (body) => {
+    const parsedTtl = parseCacheTtl(body.cacheTtl);
+    if ("error" in parsedTtl) {
+      return parsedTtl;
+    }
+    const parsed = parseMemoryCacheOptions(parsedTtl.ttl, body.maxEntries);
+    if ("error" in parsed) {
+      return parsed;
+    }
+    const parsedMaxStale = parseMaxStale(body.maxStale);
+    if ("error" in parsedMaxStale) {
+      return parsedMaxStale;
+    }
+    return {
+      context: { ...parsed.options, maxStale: parsedMaxStale.maxStale },
+    };
+  },
+  // Loads are shared with later reads, so they are not cancelled
+  fetch: (target, options) =>
+    measureCacheRead(() => getSwrCachedWines(target, options)),
+  summarize: ({ results }, options) => ({
+    cacheTtl: options.ttl,
+    memoryCache: options,
+    ...summarizeCacheReads(results),
+  }),
+};
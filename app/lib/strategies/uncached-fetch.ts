@@ -0,0 +1,11 @@
+import type { FetchStrategy } from "@/app/lib/benchmark";
+import { getUncachedWines } from "@/app/lib/cache";
+import { measureFetch, toFetchOutcome } from "@/app/lib/fetch-timings";
+
+// Plain fetch with the data cache bypassed
+export const uncachedFetchStrategy: FetchStrategy<null> = {
+  id: "fetch-nocache",
+  prepare: () => ({ context: null }),
+  fetch: async (target, _context, signal) =>
+    toFetchOutcome(await measureFetch(() => getUncachedWines(target, signal))),
+};
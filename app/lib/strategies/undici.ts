@@ -0,0 +1,21 @@
+import type { FetchStrategy } from "@/app/lib/benchmark";
+import { getWinesWithUndici } from "@/app/lib/cache";
+import { measureFetch, toFetchOutcome } from "@/app/lib/fetch-timings";
+import {
+  parseUndiciPool,
+  type UndiciPoolOptions,
+} from "@/app/lib/undici-clients";
+
+// undici Pool.request with the requested pool size and pipelining factor
+export const undiciStrategy: FetchStrategy<UndiciPoolOptions> = {
+  id: "undici",
+  prepare: (body) => {
+    const parsed = parseUndiciPool(body.connections, body.pipelining);
+    return "error" in parsed ? parsed : { context: parsed.options };
+  },
+  fetch: async (target, pool, signal) =>
+    toFetchOutcome(
+      await measureFetch(() => getWinesWithUndici(target, pool, signal))
+    ),
+  summarize: (_run, pool) => ({ pool }),
+};
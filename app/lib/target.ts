@@ -0,0 +1,175 @@
+import { FAULT_PROXY_PATH } from "@/app/lib/fault-proxy";
+import { MOCK_UPSTREAM_PATH } from "@/app/lib/mock-upstream";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD";
+
+export const HTTP_METHODS: readonly HttpMethod[] = [
+  "GET",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "HEAD",
+];
+
+export interface BenchmarkTarget {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body?: string;
+  expectedStatus: number;
+  // Revalidate with the last response's ETag / Last-Modified; a 304 then
+  // counts as success and reuses that response's body
+  conditional?: boolean;
+}
+
+export const DEFAULT_TARGET: BenchmarkTarget = {
+  url: "https://api.sampleapis.com/wines/reds",
+  method: "GET",
+  headers: {},
+  expectedStatus: 200,
+};
+
+// Hosts that may be benchmarked. Extend with a comma-separated list in
+// BENCHMARK_TARGET_ALLOWLIST, e.g. "orders.internal,localhost:4000".
+function getAllowedHosts(): string[] {
+  const extra = (process.env.BENCHMARK_TARGET_ALLOWLIST ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  return [new URL(DEFAULT_TARGET.url).host, ...extra];
+}
+
+export function isAllowedTargetUrl(url: URL): boolean {
+  const allowed = getAllowedHosts();
+  // Entries without a port match the hostname on any port
+  return (
+    allowed.includes(url.host.toLowerCase()) ||
+    allowed.includes(url.hostname.toLowerCase())
+  );
+}
+
+function isOwnRoute(url: URL, path: string, origin?: string): boolean {
+  return (
+    origin !== undefined &&
+    url.origin === new URL(origin).origin &&
+    url.pathname === path
+  );
+}
+
+// The built-in mock upstream on this app's own origin is always allowed
+export function isMockUpstreamUrl(url: URL, origin?: string): boolean {
+  return isOwnRoute(url, MOCK_UPSTREAM_PATH, origin);
+}
+
+// The fault proxy validates its own upstream, so it is allowed too
+function isFaultProxyUrl(url: URL, origin?: string): boolean {
+  return isOwnRoute(url, FAULT_PROXY_PATH, origin);
+}
+
+// Validate an untrusted target definition from a request body. A missing
+// target falls back to DEFAULT_TARGET. With `origin` (the app's own origin),
+// relative URLs resolve against it so the built-in mock upstream and fault
+// proxy can be targeted.
+export function parseTarget(
+  input: unknown,
+  origin?: string
+): { target: BenchmarkTarget } | { error: string } {
+  if (input === undefined || input === null) {
+    return { target: DEFAULT_TARGET };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "target must be an object" };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  if (typeof raw.url !== "string") {
+    return { error: "target.url is required" };
+  }
+  let url: URL;
+  try {
+    url = new URL(raw.url, origin);
+  } catch {
+    return { error: "target.url must be a valid URL" };
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return { error: "target.url must use http or https" };
+  }
+  if (
+    !isAllowedTargetUrl(url) &&
+    !isMockUpstreamUrl(url, origin) &&
+    !isFaultProxyUrl(url, origin)
+  ) {
+    return { error: `target host '${url.host}' is not in the allowlist` };
+  }
+
+  const method = raw.method ?? "GET";
+  if (!HTTP_METHODS.includes(method as HttpMethod)) {
+    return { error: `target.method must be one of ${HTTP_METHODS.join(", ")}` };
+  }
+
+  const headers: Record<string, string> = {};
+  if (raw.headers !== undefined) {
+    if (
+      typeof raw.headers !== "object" ||
+      raw.headers === null ||
+      Array.isArray(raw.headers)
+    ) {
+      return { error: "target.headers must be an object of strings" };
+    }
+    for (const [name, value] of Object.entries(raw.headers)) {
+      if (typeof value !== "string") {
+        return { error: `target.headers['${name}'] must be a string` };
+      }
+      headers[name] = value;
+    }
+  }
+
+  if (raw.body !== undefined && typeof raw.body !== "string") {
+    return { error: "target.body must be a string" };
+  }
+  if (raw.body !== undefined && (method === "GET" || method === "HEAD")) {
+    return { error: `target.body is not allowed for ${method} requests` };
+  }
+
+  const expectedStatus = raw.expectedStatus ?? 200;
+  if (
+    typeof expectedStatus !== "number" ||
+    !Number.isInteger(expectedStatus) ||
+    expectedStatus < 100 ||
+    expectedStatus > 599
+  ) {
+    return { error: "target.expectedStatus must be an HTTP status code" };
+  }
+
+  if (raw.conditional !== undefined && typeof raw.conditional !== "boolean") {
+    return { error: "target.conditional must be a boolean" };
+  }
+
+  return {
+    target: {
+      url: url.toString(),
+      method: method as HttpMethod,
+      headers,
+      body: raw.body,
+      expectedStatus,
+      conditional: raw.conditional || undefined,
+    },
+  };
+}
+
+// Stable key identifying a target, used to partition cache entries.
+// `conditional` only changes how the target is requested, so it is left out.
+export function getTargetKey(target: BenchmarkTarget): string {
+  const headers = Object.keys(target.headers)
+    .sort()
+    .map((name) => [name.toLowerCase(), target.headers[name]]);
+  return JSON.stringify([
+    target.method,
+    target.url,
+    headers,
+    target.body ?? null,
+    target.expectedStatus,
+  ]);
+}
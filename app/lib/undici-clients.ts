@@ -0,0 +1,72 @@
+import { Pool } from "undici";
+
+export interface UndiciPoolOptions {
+  connections: number; // sockets per origin
+  pipelining: number; // requests in flight per socket (1 disables pipelining)
+}
+
+export const DEFAULT_UNDICI_POOL: UndiciPoolOptions = {
+  connections: 10,
+  pipelining: 1,
+};
+
+// Pools are shared per origin and settings so every request with the same
+// settings draws from the same connections, as our services' pools do
+const pools = new Map<string, Pool>();
+
+export function getUndiciPool(origin: string, options: UndiciPoolOptions): Pool {
+  const key = `${origin} ${options.connections} ${options.pipelining}`;
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = new Pool(origin, {
+      connections: options.connections,
+      pipelining: options.pipelining,
+    });
+    pools.set(key, pool);
+  }
+  return pool;
+}
+
+function parseSetting(
+  input: unknown,
+  name: string,
+  fallback: number
+): number | { error: string } {
+  if (input === undefined || input === null) {
+    return fallback;
+  }
+  if (
+    typeof input !== "number" ||
+    !Number.isInteger(input) ||
+    input < 1 ||
+    input > 100
+  ) {
+    return { error: `${name} must be an integer between 1 and 100` };
+  }
+  return input;
+}
+
+export function parseUndiciPool(
+  connections: unknown,
+  pipelining: unknown
+): { options: UndiciPoolOptions } | { error: string } {
+  const parsedConnections = parseSetting(
+    connections,
+    "connections",
+    DEFAULT_UNDICI_POOL.connections
+  );
+  if (typeof parsedConnections !== "number") {
+    return parsedConnections;
+  }
+  const parsedPipelining = parseSetting(
+    pipelining,
+    "pipelining",
+    DEFAULT_UNDICI_POOL.pipelining
+  );
+  if (typeof parsedPipelining !== "number") {
+    return parsedPipelining;
+  }
+  return {
+    options: { connections: parsedConnections, pipelining: parsedPipelining },
+  };
+}
@@ -1,65 +1,447 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import type {
-  FetchWinesResponse,
+  BenchmarkResponse,
+  CompletedFetch,
   FetchResult,
+  RunMode,
   TraceSpan,
-} from "./api/fetch-wines/route";
-import type { FetchWinesGotResponse } from "./api/fetch-wines-got/route";
-import type { FetchWinesNoCacheResponse } from "./api/fetch-wines-nocache/route";
-import type { NetworkTimings } from "./lib/cache";
+} from "./lib/benchmark";
+import type { SweepResponse } from "./api/sweep/route";
+import type { ListRunsResponse } from "./api/runs/route";
+import { EVENT_STREAM_TYPE, readRunStream } from "./lib/event-stream";
+import { EXPORT_FORMATS, type ExportFormat } from "./lib/export";
+import type { CacheStatus, NetworkTimings } from "./lib/cache";
+import {
+  bootstrapSpeedup,
+  type NetworkTimingStats,
+  type SpeedupEstimate,
+  type SummaryStats,
+} from "./lib/stats";
+import {
+  buildFaultProxyUrl,
+  DEFAULT_FAULT_OPTIONS,
+  type FaultOptions,
+} from "./lib/fault-proxy";
+import type { GotTransport } from "./lib/got-clients";
+import type { RunStrategy } from "./lib/run-store";
+import type { UndiciPoolOptions } from "./lib/undici-clients";
+import { DEFAULT_HEDGE_OPTIONS } from "./lib/hedging";
+import { COMPLETION_MODES, type CompletionMode } from "./lib/completion";
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from "./lib/retry-policy";
+import {
+  buildMockUpstreamUrl,
+  DEFAULT_MOCK_UPSTREAM,
+  JITTER_DISTRIBUTIONS,
+  type JitterDistribution,
+  type MockUpstreamOptions,
+} from "./lib/mock-upstream";
+import {
+  DEFAULT_TARGET,
+  HTTP_METHODS,
+  type BenchmarkTarget,
+  type HttpMethod,
+} from "./lib/target";
+import {
+  DEFAULT_BATCH_SIZE,
+  EXAMPLE_SCENARIO,
+  SCENARIO_MODES,
+  type ScenarioMode,
+} from "./lib/scenario";
+import type { ScenarioResponse } from "./lib/scenario-runner";
+
+type HttpClient = RunStrategy;
+
+const STRATEGIES: { id: HttpClient; label: string; description: string }[] = [
+  { id: "fetch", label: "Unstable Cache", description: "Next.js unstable_cache" },
+  {
+    id: "fetch-nocache",
+    label: "No Cache",
+    description: "Direct fetch without cache",
+  },
+  { id: "got", label: "Got", description: "got with network phase timings" },
+  {
+    id: "hedged",
+    label: "Hedged",
+    description: "Uncached fetch with a backup request after a delay",
+  },
+  {
+    id: "undici",
+    label: "Undici",
+    description: "undici Pool.request with a shared connection pool",
+  },
+  { id: "axios", label: "Axios", description: "axios with its Node adapter" },
+  {
+    id: "single-flight",
+    label: "Single-flight",
+    description: "Uncached fetch where concurrent fetches share one request",
+  },
+  { id: "lru", label: "LRU Cache", description: "In-memory LRU cache with a TTL" },
+  {
+    id: "swr",
+    label: "Stale-While-Revalidate",
+    description: "In-memory cache serving stale data while it refreshes",
+  },
+];
+
+// Strategies that read through a cache and report hits
+const CACHE_STRATEGIES: readonly HttpClient[] = ["fetch", "lru", "swr"];
+
+const STRATEGY_ENDPOINTS: Record<HttpClient, string> = {
+  fetch: "/api/fetch-wines",
+  "fetch-nocache": "/api/fetch-wines-nocache",
+  got: "/api/fetch-wines-got",
+  hedged: "/api/fetch-wines-hedged",
+  undici: "/api/fetch-wines-undici",
+  axios: "/api/fetch-wines-axios",
+  "single-flight": "/api/fetch-wines-single-flight",
+  lru: "/api/fetch-wines-lru",
+  swr: "/api/fetch-wines-swr",
+};
+
+function getStrategyLabel(httpClient: HttpClient): string {
+  return STRATEGIES.find((s) => s.id === httpClient)?.label ?? httpClient;
+}
+
+const TRANSPORT_LABELS: Record<GotTransport, string> = {
+  "http1-fresh": "HTTP/1.1 fresh",
+  "http1-keepalive": "HTTP/1.1 keep-alive",
+  http2: "HTTP/2",
+};
+
+const HISTORY_PAGE_SIZE = 20;
+
+function getExportUrl(format: ExportFormat, params: URLSearchParams): string {
+  const query = new URLSearchParams(params);
+  query.set("format", format);
+  return `/api/runs/export?${query}`;
+}
 
-type HttpClient = "fetch" | "got" | "fetch-nocache";
+interface LiveRun {
+  mode: RunMode;
+  concurrency?: number;
+  fetchCount: number;
+  results: FetchResult[];
+  traces: TraceSpan[];
+}
 
 interface TestResult {
   id: string;
-  response: FetchWinesResponse | FetchWinesGotResponse | FetchWinesNoCacheResponse;
+  response: BenchmarkResponse;
   timestamp: Date;
   httpClient: HttpClient;
 }
 
 interface ComparisonResult {
-  parallel: FetchWinesResponse | FetchWinesGotResponse | FetchWinesNoCacheResponse | null;
-  sequential: FetchWinesResponse | FetchWinesGotResponse | FetchWinesNoCacheResponse | null;
+  parallel: BenchmarkResponse | null;
+  sequential: BenchmarkResponse | null;
+  pooled: BenchmarkResponse | null;
+  // Present when each mode was repeated more than once
+  trialStats: {
+    trials: number;
+    parallelVsSequential: SpeedupEstimate;
+    pooledVsSequential: SpeedupEstimate;
+  } | null;
+}
+
+// The run with the median total latency represents a mode across trials
+function pickMedianRun(runs: BenchmarkResponse[]): BenchmarkResponse | null {
+  if (runs.length === 0) return null;
+  const sorted = [...runs].sort((a, b) => a.totalLatency - b.totalLatency);
+  return sorted[Math.floor((sorted.length - 1) / 2)];
 }
 
-// Type guard to check if response has network timings (got response)
+// Bar and badge colours per run mode
+const MODE_COLORS: Record<
+  RunMode,
+  {
+    bar: string;
+    badge: string;
+    text: string;
+    panel: string;
+    heading: string;
+    divider: string;
+  }
+> = {
+  parallel: {
+    bar: "bg-blue-500",
+    badge: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+    text: "text-blue-600 dark:text-blue-400",
+    panel:
+      "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800",
+    heading: "text-blue-900 dark:text-blue-100",
+    divider: "border-blue-200 dark:border-blue-700",
+  },
+  sequential: {
+    bar: "bg-purple-500",
+    badge:
+      "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400",
+    text: "text-purple-600 dark:text-purple-400",
+    panel:
+      "bg-purple-50 dark:bg-purple-900/20 border-purple-200 dark:border-purple-800",
+    heading: "text-purple-900 dark:text-purple-100",
+    divider: "border-purple-200 dark:border-purple-700",
+  },
+  pooled: {
+    bar: "bg-teal-500",
+    badge: "bg-teal-100 text-teal-700 dark:bg-teal-900/30 dark:text-teal-400",
+    text: "text-teal-600 dark:text-teal-400",
+    panel:
+      "bg-teal-50 dark:bg-teal-900/20 border-teal-200 dark:border-teal-800",
+    heading: "text-teal-900 dark:text-teal-100",
+    divider: "border-teal-200 dark:border-teal-700",
+  },
+};
+
+function getModeLabel(response: {
+  mode: RunMode;
+  concurrency?: number;
+}): string {
+  if (response.mode === "pooled") {
+    return `Pooled (${response.concurrency})`;
+  }
+  return response.mode === "parallel" ? "Parallel" : "Sequential";
+}
+
+// Parse "Name: value" lines from the headers textarea
+function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim();
+    if (name) {
+      headers[name] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+// Type guard to check if response has network timings (any fetch reported phases)
 function hasNetworkTimings(
-  response: FetchWinesResponse | FetchWinesGotResponse | FetchWinesNoCacheResponse
-): response is FetchWinesGotResponse {
-  return "aggregatedTimings" in response;
+  response: BenchmarkResponse
+): response is BenchmarkResponse &
+  Required<Pick<BenchmarkResponse, "aggregatedTimings" | "timingStats">> {
+  return response.aggregatedTimings !== undefined;
+}
+
+type HedgedResponse = BenchmarkResponse &
+  Required<
+    Pick<
+      BenchmarkResponse,
+      | "hedge"
+      | "hedgeDelay"
+      | "hedgeDelaySource"
+      | "requestsSent"
+      | "extraLoad"
+      | "hedgesWon"
+      | "unhedgedLatencyStats"
+      | "tailGain"
+    >
+  >;
+
+function isHedgedResponse(
+  response: BenchmarkResponse
+): response is HedgedResponse {
+  return response.hedgeDelay !== undefined;
+}
+
+// Only send a policy when it changes anything from a single untimed attempt
+function isPolicyActive(policy: RetryPolicy): boolean {
+  return (
+    policy.maxRetries > 0 ||
+    policy.attemptTimeoutMs !== undefined ||
+    policy.deadlineMs !== undefined
+  );
+}
+
+function parseStatusList(text: string): number[] {
+  return text
+    .split(/[\s,]+/)
+    .map((value) => parseInt(value))
+    .filter((status) => status >= 100 && status <= 599);
+}
+
+const CACHE_STATUS_COLORS: Record<CacheStatus, string> = {
+  hit: "text-green-600 dark:text-green-400",
+  stale: "text-amber-600 dark:text-amber-400",
+  miss: "text-orange-600 dark:text-orange-400",
+};
+
+function formatAge(ms: number): string {
+  if (ms < 1000) return `${ms.toFixed(0)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  if (ms < 3_600_000) return `${(ms / 60_000).toFixed(1)}min`;
+  return `${(ms / 3_600_000).toFixed(1)}h`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+// Scenario timelines reuse the fetch mode colours; batched draws like pooled
+const SCENARIO_TIMELINE_MODES: Record<ScenarioMode, RunMode> = {
+  sequential: "sequential",
+  parallel: "parallel",
+  batched: "pooled",
+};
+
+function getCacheLabel(response: BenchmarkResponse): string {
+  return response.hitRatio === undefined
+    ? `Cache: ${response.cacheStatus}`
+    : `Cache: ${response.cacheStatus} (${(response.hitRatio * 100).toFixed(0)}% hits)`;
+}
+
+interface ColdHotResult {
+  cold: BenchmarkResponse;
+  hot: BenchmarkResponse;
+}
+
+// Expire every cached target so the next cached fetch misses
+async function invalidateCache(): Promise<void> {
+  const response = await fetch("/api/invalidate-cache", { method: "POST" });
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to invalidate cache");
+  }
+}
+
+// Cancelled fetches did not fail; they were abandoned by the completion mode
+function getFailureCount(response: BenchmarkResponse): number {
+  return response.results.filter((r) => !r.success && !r.cancelled).length;
 }
 
 // Type guard to check if result has network timings
 function resultHasTimings(
   result: FetchResult
 ): result is FetchResult & { networkTimings: NetworkTimings } {
-  return "networkTimings" in result && result.networkTimings !== undefined;
+  return result.networkTimings !== undefined;
 }
 
 export default function Home() {
   const [fetchCount, setFetchCount] = useState(10);
-  const [mode, setMode] = useState<"parallel" | "sequential" | "compare">(
-    "compare"
-  );
+  const [mode, setMode] = useState<RunMode | "compare">("compare");
+  const [concurrency, setConcurrency] = useState(4);
+  const [trials, setTrials] = useState(1);
+  const [completion, setCompletion] = useState<CompletionMode>("all-settled");
+  const [completionN, setCompletionN] = useState(1);
   const [httpClient, setHttpClient] = useState<HttpClient>("fetch");
+  const [transport, setTransport] = useState<GotTransport>("http1-fresh");
+  const [maxSockets, setMaxSockets] = useState(10);
+  const [undiciPool, setUndiciPool] = useState<UndiciPoolOptions>({
+    connections: 10,
+    pipelining: 1,
+  });
+  const [hedgeDelayMs, setHedgeDelayMs] = useState(
+    DEFAULT_HEDGE_OPTIONS.delayMs
+  );
+  const [hedgePercentile, setHedgePercentile] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isWarmingCache, setIsWarmingCache] = useState(false);
+  const [isInvalidatingCache, setIsInvalidatingCache] = useState(false);
+  const [cacheTtl, setCacheTtl] = useState(3600);
+  const [maxEntries, setMaxEntries] = useState(100);
+  const [maxStale, setMaxStale] = useState(3600);
   const [results, setResults] = useState<TestResult[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historyPage, setHistoryPage] = useState(1);
+  const [historyStrategy, setHistoryStrategy] = useState<HttpClient | "">("");
+  const [historyMode, setHistoryMode] = useState<RunMode | "">("");
+  const [historyFrom, setHistoryFrom] = useState("");
+  const [historyTo, setHistoryTo] = useState("");
   const [comparison, setComparison] = useState<ComparisonResult | null>(null);
-  const [latestSingleResult, setLatestSingleResult] = useState<
-    FetchWinesResponse | FetchWinesGotResponse | FetchWinesNoCacheResponse | null
-  >(null);
+  const [latestSingleResult, setLatestSingleResult] =
+    useState<BenchmarkResponse | null>(null);
+  const [coldHot, setColdHot] = useState<ColdHotResult | null>(null);
   const [currentHttpClient, setCurrentHttpClient] =
     useState<HttpClient>("fetch");
+  const [liveRun, setLiveRun] = useState<LiveRun | null>(null);
+  // Aborting it closes the run's event stream, which cancels the run
+  const runController = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [targetUrl, setTargetUrl] = useState(DEFAULT_TARGET.url);
+  const [targetMethod, setTargetMethod] = useState<HttpMethod>(
+    DEFAULT_TARGET.method
+  );
+  const [targetHeaders, setTargetHeaders] = useState("");
+  const [targetBody, setTargetBody] = useState("");
+  const [expectedStatus, setExpectedStatus] = useState(
+    DEFAULT_TARGET.expectedStatus
+  );
+  const [conditional, setConditional] = useState(false);
+  const [useMockUpstream, setUseMockUpstream] = useState(false);
+  const [mockUpstream, setMockUpstream] = useState<MockUpstreamOptions>(
+    DEFAULT_MOCK_UPSTREAM
+  );
+  const [retryPolicy, setRetryPolicy] =
+    useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
+  const [retryableStatuses, setRetryableStatuses] = useState(
+    DEFAULT_RETRY_POLICY.retryableStatuses.join(", ")
+  );
+  const [injectFaults, setInjectFaults] = useState(false);
+  const [faultOptions, setFaultOptions] = useState<
+    Omit<FaultOptions, "upstream">
+  >(DEFAULT_FAULT_OPTIONS);
+
+  const [sweepLevels, setSweepLevels] = useState("1, 2, 4, 8, 16, 32");
+  const [sweepRepetitions, setSweepRepetitions] = useState(3);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [sweepResult, setSweepResult] = useState<SweepResponse | null>(null);
+
+  const [scenarioText, setScenarioText] = useState(() =>
+    JSON.stringify(EXAMPLE_SCENARIO, null, 2)
+  );
+  const [scenarioMode, setScenarioMode] = useState<ScenarioMode | "compare">(
+    "compare"
+  );
+  const [batchSize, setBatchSize] = useState(DEFAULT_BATCH_SIZE);
+  const [isRunningScenario, setIsRunningScenario] = useState(false);
+  const [scenarioResults, setScenarioResults] = useState<ScenarioResponse[]>(
+    []
+  );
+
+  const target = useMemo<BenchmarkTarget>(() => {
+    const upstream = useMockUpstream
+      ? buildMockUpstreamUrl(mockUpstream)
+      : targetUrl;
+    return {
+      url: injectFaults
+        ? buildFaultProxyUrl({ upstream, ...faultOptions })
+        : upstream,
+      method: targetMethod,
+      headers: parseHeaderLines(targetHeaders),
+      body:
+        targetBody && targetMethod !== "GET" && targetMethod !== "HEAD"
+          ? targetBody
+          : undefined,
+      expectedStatus,
+      conditional: conditional || undefined,
+    };
+  }, [
+    useMockUpstream,
+    mockUpstream,
+    injectFaults,
+    faultOptions,
+    targetUrl,
+    targetMethod,
+    targetHeaders,
+    targetBody,
+    expectedStatus,
+    conditional,
+  ]);
 
   const warmCache = useCallback(async () => {
     setIsWarmingCache(true);
     setError(null);
     try {
-      const response = await fetch("/api/warm-cache", { method: "POST" });
+      const response = await fetch("/api/warm-cache", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ target, cacheTtl }),
+      });
       if (!response.ok) {
         throw new Error("Failed to warm cache");
       }
@@ -72,25 +454,142 @@ export default function Home() {
     } finally {
       setIsWarmingCache(false);
     }
+  }, [target, cacheTtl]);
+
+  const handleInvalidateCache = useCallback(async () => {
+    setIsInvalidatingCache(true);
+    setError(null);
+    try {
+      await invalidateCache();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to invalidate cache"
+      );
+    } finally {
+      setIsInvalidatingCache(false);
+    }
   }, []);
 
-  const runTest = useCallback(
-    async (
-      testMode: "parallel" | "sequential"
-    ): Promise<FetchWinesResponse | FetchWinesGotResponse | FetchWinesNoCacheResponse> => {
-      let endpoint: string;
-      if (httpClient === "got") {
-        endpoint = "/api/fetch-wines-got";
-      } else if (httpClient === "fetch-nocache") {
-        endpoint = "/api/fetch-wines-nocache";
-      } else {
-        endpoint = "/api/fetch-wines";
+  // Shared by the history list and the history export links
+  const historyFilterParams = useMemo(() => {
+    const params = new URLSearchParams();
+    if (historyStrategy) params.set("strategy", historyStrategy);
+    if (historyMode) params.set("mode", historyMode);
+    if (historyFrom) params.set("from", new Date(historyFrom).toISOString());
+    // Include the whole "to" day
+    if (historyTo) {
+      params.set("to", new Date(`${historyTo}T23:59:59.999`).toISOString());
+    }
+    return params;
+  }, [historyStrategy, historyMode, historyFrom, historyTo]);
+
+  const loadHistory = useCallback(async () => {
+    const params = new URLSearchParams(historyFilterParams);
+    params.set("page", String(historyPage));
+    params.set("pageSize", String(HISTORY_PAGE_SIZE));
+
+    try {
+      const response = await fetch(`/api/runs?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to load history");
       }
+      const data: ListRunsResponse = await response.json();
+      setResults(
+        data.runs.map((run) => ({
+          id: run.id,
+          response: run.response as BenchmarkResponse,
+          timestamp: new Date(run.createdAt),
+          httpClient: run.strategy,
+        }))
+      );
+      setHistoryTotal(data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    }
+  }, [historyPage, historyFilterParams]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // New runs land on the first page. Moving there reloads through the effect
+  // above, so only reload directly when it is already showing.
+  const showLatestRuns = useCallback(async () => {
+    if (historyPage === 1) {
+      await loadHistory();
+    } else {
+      setHistoryPage(1);
+    }
+  }, [historyPage, loadHistory]);
+
+  const deleteRun = useCallback(
+    async (id: string) => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/runs/${id}`, { method: "DELETE" });
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || "Failed to delete run");
+        }
+        await loadHistory();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to delete run");
+      }
+    },
+    [loadHistory]
+  );
 
-      const response = await fetch(endpoint, {
+  const runTest = useCallback(
+    async (
+      testMode: RunMode
+    ): Promise<BenchmarkResponse> => {
+      const response = await fetch(STRATEGY_ENDPOINTS[httpClient], {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ fetchCount, mode: testMode }),
+        headers: {
+          "Content-Type": "application/json",
+          Accept: EVENT_STREAM_TYPE,
+        },
+        signal: runController.current?.signal,
+        body: JSON.stringify({
+          fetchCount,
+          mode: testMode,
+          concurrency: testMode === "pooled" ? concurrency : undefined,
+          ...(testMode === "parallel" &&
+            completion !== "all-settled" && {
+              completion,
+              completionN:
+                completion === "first-n"
+                  ? Math.min(completionN, fetchCount)
+                  : undefined,
+            }),
+          target,
+          policy: isPolicyActive(retryPolicy)
+            ? {
+                ...retryPolicy,
+                retryableStatuses: parseStatusList(retryableStatuses),
+              }
+            : undefined,
+          ...(httpClient === "got" && {
+            transport,
+            maxSockets:
+              transport === "http1-keepalive" ? maxSockets : undefined,
+          }),
+          ...(CACHE_STRATEGIES.includes(httpClient) && { cacheTtl }),
+          ...((httpClient === "lru" || httpClient === "swr") && {
+            maxEntries,
+          }),
+          ...(httpClient === "swr" && { maxStale }),
+          ...(httpClient === "undici" && undiciPool),
+          ...(httpClient === "hedged" && {
+            hedge: {
+              delayMs: hedgeDelayMs,
+              percentile: hedgePercentile
+                ? parseFloat(hedgePercentile)
+                : undefined,
+            },
+          }),
+        }),
       });
 
       if (!response.ok) {
@@ -98,69 +597,222 @@ export default function Home() {
         throw new Error(errorData.error || "Request failed");
       }
 
-      return response.json();
+      setLiveRun({
+        mode: testMode,
+        concurrency: testMode === "pooled" ? concurrency : undefined,
+        fetchCount,
+        results: [],
+        traces: [],
+      });
+      return readRunStream<CompletedFetch, BenchmarkResponse>(
+        response,
+        ({ result, trace }) =>
+          setLiveRun(
+            (live) =>
+              live && {
+                ...live,
+                results: [...live.results, result],
+                traces: [...live.traces, trace],
+              }
+          )
+      );
     },
-    [fetchCount, httpClient]
+    [
+      fetchCount,
+      concurrency,
+      completion,
+      completionN,
+      httpClient,
+      target,
+      retryPolicy,
+      retryableStatuses,
+      transport,
+      maxSockets,
+      undiciPool,
+      cacheTtl,
+      maxEntries,
+      maxStale,
+      hedgeDelayMs,
+      hedgePercentile,
+    ]
   );
 
   const handleRun = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     setCurrentHttpClient(httpClient);
+    const controller = new AbortController();
+    runController.current = controller;
 
     try {
       if (mode === "compare") {
-        const parallelResult = await runTest("parallel");
-        const sequentialResult = await runTest("sequential");
+        const order: RunMode[] = ["parallel", "sequential", "pooled"];
+        const runs: Record<RunMode, BenchmarkResponse[]> = {
+          parallel: [],
+          sequential: [],
+          pooled: [],
+        };
+
+        for (let trial = 0; trial < trials; trial++) {
+          // Rotate which mode goes first so none always pays the warm-up cost
+          for (let i = 0; i < order.length; i++) {
+            const runMode = order[(trial + i) % order.length];
+            runs[runMode].push(await runTest(runMode));
+          }
+        }
+
+        const totals = (runMode: RunMode) =>
+          runs[runMode].map((r) => r.totalLatency);
 
         setComparison({
-          parallel: parallelResult,
-          sequential: sequentialResult,
+          parallel: pickMedianRun(runs.parallel),
+          sequential: pickMedianRun(runs.sequential),
+          pooled: pickMedianRun(runs.pooled),
+          trialStats:
+            trials > 1
+              ? {
+                  trials,
+                  parallelVsSequential: bootstrapSpeedup(
+                    totals("sequential"),
+                    totals("parallel")
+                  ),
+                  pooledVsSequential: bootstrapSpeedup(
+                    totals("sequential"),
+                    totals("pooled")
+                  ),
+                }
+              : null,
         });
         setLatestSingleResult(null);
-
-        setResults((prev) => [
-          {
-            id: `parallel-${Date.now()}`,
-            response: parallelResult,
-            timestamp: new Date(),
-            httpClient,
-          },
-          {
-            id: `sequential-${Date.now()}`,
-            response: sequentialResult,
-            timestamp: new Date(),
-            httpClient,
-          },
-          ...prev,
-        ]);
       } else {
         const result = await runTest(mode);
         setLatestSingleResult(result);
         setComparison(null);
-        setResults((prev) => [
-          {
-            id: `${mode}-${Date.now()}`,
-            response: result,
-            timestamp: new Date(),
-            httpClient,
-          },
-          ...prev,
-        ]);
       }
+      setColdHot(null);
+    } catch (err) {
+      // A cancelled run is simply dropped
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Test failed");
+      }
+    } finally {
+      runController.current = null;
+      setLiveRun(null);
+      setIsLoading(false);
+      // Every run is persisted server-side, so show it from the store
+      await showLatestRuns();
+    }
+  }, [mode, trials, runTest, httpClient, showLatestRuns]);
+
+  // Cache strategies only: empty the cache, then run the same benchmark twice
+  // so the first run measures cold starts and the second the warm cache
+  const handleColdHot = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    setCurrentHttpClient(httpClient);
+    const controller = new AbortController();
+    runController.current = controller;
+
+    try {
+      await invalidateCache();
+      const runMode = mode === "compare" ? "parallel" : mode;
+      const cold = await runTest(runMode);
+      const hot = await runTest(runMode);
+      setColdHot({ cold, hot });
+      setLatestSingleResult(null);
+      setComparison(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Test failed");
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Test failed");
+      }
     } finally {
+      runController.current = null;
+      setLiveRun(null);
       setIsLoading(false);
+      await showLatestRuns();
     }
-  }, [mode, runTest, httpClient]);
+  }, [mode, runTest, httpClient, showLatestRuns]);
+
+  const handleSweep = useCallback(async () => {
+    setIsSweeping(true);
+    setError(null);
+    try {
+      const levels = sweepLevels
+        .split(",")
+        .map((level) => parseInt(level.trim()))
+        .filter((level) => !Number.isNaN(level));
+
+      const response = await fetch("/api/sweep", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          strategy: httpClient,
+          levels,
+          fetchCount,
+          repetitions: sweepRepetitions,
+          target,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Sweep failed");
+      }
+
+      setSweepResult(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sweep failed");
+    } finally {
+      setIsSweeping(false);
+    }
+  }, [sweepLevels, sweepRepetitions, httpClient, fetchCount, target]);
+
+  // Compare runs every mode one after another on the same scenario
+  const handleScenario = useCallback(async () => {
+    setIsRunningScenario(true);
+    setError(null);
+    try {
+      let scenario: unknown;
+      try {
+        scenario = JSON.parse(scenarioText);
+      } catch {
+        throw new Error("Scenario is not valid JSON");
+      }
+
+      const modes = scenarioMode === "compare" ? SCENARIO_MODES : [scenarioMode];
+      const responses: ScenarioResponse[] = [];
+      for (const mode of modes) {
+        const response = await fetch("/api/scenario", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ scenario, mode, batchSize }),
+        });
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || "Scenario failed");
+        }
+        responses.push(await response.json());
+        setScenarioResults([...responses]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Scenario failed");
+    } finally {
+      setIsRunningScenario(false);
+    }
+  }, [scenarioText, scenarioMode, batchSize]);
 
   const clearResults = () => {
-    setResults([]);
     setComparison(null);
     setLatestSingleResult(null);
+    setColdHot(null);
   };
 
+  const comparisonRuns = comparison
+    ? [comparison.parallel, comparison.sequential, comparison.pooled].filter(
+        (run): run is BenchmarkResponse => run !== null
+      )
+    : [];
+
   const getCacheStatusColor = (status: string) => {
     switch (status) {
       case "hot":
@@ -222,7 +874,7 @@ export default function Home() {
                 Mode
               </label>
               <div className="flex flex-wrap gap-2">
-                {(["parallel", "sequential", "compare"] as const).map((m) => (
+                {(["parallel", "sequential", "pooled", "compare"] as const).map((m) => (
                   <button
                     key={m}
                     onClick={() => setMode(m)}
@@ -236,6 +888,94 @@ export default function Home() {
                   </button>
                 ))}
               </div>
+              {(mode === "pooled" || mode === "compare") && (
+                <div className="flex items-center gap-2 pt-1">
+                  <label
+                    htmlFor="concurrency"
+                    className="text-xs text-zinc-600 dark:text-zinc-400"
+                  >
+                    Pool concurrency
+                  </label>
+                  <input
+                    type="number"
+                    id="concurrency"
+                    min={1}
+                    max={100}
+                    value={concurrency}
+                    onChange={(e) =>
+                      setConcurrency(
+                        Math.min(100, Math.max(1, parseInt(e.target.value) || 1))
+                      )
+                    }
+                    className="w-20 px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+              {(mode === "parallel" || mode === "compare") && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <label
+                    htmlFor="completion"
+                    className="text-xs text-zinc-600 dark:text-zinc-400"
+                  >
+                    Parallel completion
+                  </label>
+                  <select
+                    id="completion"
+                    value={completion}
+                    onChange={(e) =>
+                      setCompletion(e.target.value as CompletionMode)
+                    }
+                    className="px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {COMPLETION_MODES.map((m) => (
+                      <option key={m} value={m}>
+                        {m}
+                      </option>
+                    ))}
+                  </select>
+                  {completion === "first-n" && (
+                    <input
+                      type="number"
+                      aria-label="Successes to wait for"
+                      min={1}
+                      max={fetchCount}
+                      value={completionN}
+                      onChange={(e) =>
+                        setCompletionN(
+                          Math.min(
+                            fetchCount,
+                            Math.max(1, parseInt(e.target.value) || 1)
+                          )
+                        )
+                      }
+                      className="w-20 px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  )}
+                </div>
+              )}
+              {mode === "compare" && (
+                <div className="flex items-center gap-2">
+                  <label
+                    htmlFor="trials"
+                    className="text-xs text-zinc-600 dark:text-zinc-400"
+                  >
+                    Trials per mode
+                  </label>
+                  <input
+                    type="number"
+                    id="trials"
+                    min={1}
+                    max={20}
+                    value={trials}
+                    onChange={(e) =>
+                      setTrials(
+                        Math.min(20, Math.max(1, parseInt(e.target.value) || 1))
+                      )
+                    }
+                    className="w-20 px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
             </div>
 
             {/* Strategy Selection */}
@@ -244,32 +984,238 @@ export default function Home() {
                 Strategy
               </label>
               <div className="flex flex-wrap gap-2">
-                <button
-                  onClick={() => setHttpClient("fetch")}
-                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                    httpClient === "fetch"
-                      ? "bg-emerald-600 text-white"
-                      : "bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700"
-                  }`}
-                >
-                  Unstable Cache
-                </button>
-                <button
-                  onClick={() => setHttpClient("fetch-nocache")}
-                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                    httpClient === "fetch-nocache"
-                      ? "bg-emerald-600 text-white"
-                      : "bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700"
-                  }`}
-                >
-                  No Cache
-                </button>
+                {STRATEGIES.map((strategy) => (
+                  <button
+                    key={strategy.id}
+                    onClick={() => setHttpClient(strategy.id)}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      httpClient === strategy.id
+                        ? "bg-emerald-600 text-white"
+                        : "bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700"
+                    }`}
+                  >
+                    {strategy.label}
+                  </button>
+                ))}
               </div>
               <p className="text-xs text-zinc-500">
-                {httpClient === "fetch-nocache"
-                  ? "Direct fetch without cache"
-                  : "Next.js unstable_cache"}
+                {STRATEGIES.find((s) => s.id === httpClient)?.description}
               </p>
+              {httpClient === "got" && (
+                <div className="flex flex-wrap items-center gap-2 pt-1">
+                  <select
+                    aria-label="Transport"
+                    value={transport}
+                    onChange={(e) =>
+                      setTransport(e.target.value as GotTransport)
+                    }
+                    className="px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {Object.entries(TRANSPORT_LABELS).map(([t, label]) => (
+                      <option key={t} value={t}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  {transport === "http1-keepalive" && (
+                    <>
+                      <label
+                        htmlFor="maxSockets"
+                        className="text-xs text-zinc-600 dark:text-zinc-400"
+                      >
+                        Max sockets
+                      </label>
+                      <input
+                        type="number"
+                        id="maxSockets"
+                        min={1}
+                        max={100}
+                        value={maxSockets}
+                        onChange={(e) =>
+                          setMaxSockets(
+                            Math.min(
+                              100,
+                              Math.max(1, parseInt(e.target.value) || 1)
+                            )
+                          )
+                        }
+                        className="w-20 px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </>
+                  )}
+                </div>
+              )}
+              {CACHE_STRATEGIES.includes(httpClient) && (
+                <div className="flex flex-wrap items-center gap-2 pt-1">
+                  <label
+                    htmlFor="cacheTtl"
+                    className="text-xs text-zinc-600 dark:text-zinc-400"
+                  >
+                    Cache TTL (s)
+                  </label>
+                  <input
+                    type="number"
+                    id="cacheTtl"
+                    min={1}
+                    max={86400}
+                    value={cacheTtl}
+                    onChange={(e) =>
+                      setCacheTtl(
+                        Math.min(
+                          86400,
+                          Math.max(1, parseInt(e.target.value) || 1)
+                        )
+                      )
+                    }
+                    className="w-24 px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  {(httpClient === "lru" || httpClient === "swr") && (
+                    <>
+                      <label
+                        htmlFor="maxEntries"
+                        className="text-xs text-zinc-600 dark:text-zinc-400"
+                      >
+                        Max entries
+                      </label>
+                      <input
+                        type="number"
+                        id="maxEntries"
+                        min={1}
+                        max={10000}
+                        value={maxEntries}
+                        onChange={(e) =>
+                          setMaxEntries(
+                            Math.min(
+                              10000,
+                              Math.max(1, parseInt(e.target.value) || 1)
+                            )
+                          )
+                        }
+                        className="w-24 px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </>
+                  )}
+                  {httpClient === "swr" && (
+                    <>
+                      <label
+                        htmlFor="maxStale"
+                        className="text-xs text-zinc-600 dark:text-zinc-400"
+                      >
+                        Serve stale for (s)
+                      </label>
+                      <input
+                        type="number"
+                        id="maxStale"
+                        min={1}
+                        max={86400}
+                        value={maxStale}
+                        onChange={(e) =>
+                          setMaxStale(
+                            Math.min(
+                              86400,
+                              Math.max(1, parseInt(e.target.value) || 1)
+                            )
+                          )
+                        }
+                        className="w-24 px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </>
+                  )}
+                </div>
+              )}
+              {httpClient === "undici" && (
+                <div className="flex flex-wrap items-center gap-2 pt-1">
+                  <label
+                    htmlFor="undiciConnections"
+                    className="text-xs text-zinc-600 dark:text-zinc-400"
+                  >
+                    Pool size
+                  </label>
+                  <input
+                    type="number"
+                    id="undiciConnections"
+                    min={1}
+                    max={100}
+                    value={undiciPool.connections}
+                    onChange={(e) =>
+                      setUndiciPool({
+                        ...undiciPool,
+                        connections: Math.min(
+                          100,
+                          Math.max(1, parseInt(e.target.value) || 1)
+                        ),
+                      })
+                    }
+                    className="w-20 px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <label
+                    htmlFor="undiciPipelining"
+                    className="text-xs text-zinc-600 dark:text-zinc-400"
+                  >
+                    Pipelining
+                  </label>
+                  <input
+                    type="number"
+                    id="undiciPipelining"
+                    min={1}
+                    max={100}
+                    value={undiciPool.pipelining}
+                    onChange={(e) =>
+                      setUndiciPool({
+                        ...undiciPool,
+                        pipelining: Math.min(
+                          100,
+                          Math.max(1, parseInt(e.target.value) || 1)
+                        ),
+                      })
+                    }
+                    className="w-20 px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+              {httpClient === "hedged" && (
+                <div className="flex flex-wrap items-center gap-2 pt-1">
+                  <label
+                    htmlFor="hedgeDelayMs"
+                    className="text-xs text-zinc-600 dark:text-zinc-400"
+                  >
+                    Hedge after (ms)
+                  </label>
+                  <input
+                    type="number"
+                    id="hedgeDelayMs"
+                    min={0}
+                    max={60000}
+                    value={hedgeDelayMs}
+                    onChange={(e) =>
+                      setHedgeDelayMs(
+                        Math.min(
+                          60000,
+                          Math.max(0, parseInt(e.target.value) || 0)
+                        )
+                      )
+                    }
+                    className="w-20 px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <label
+                    htmlFor="hedgePercentile"
+                    className="text-xs text-zinc-600 dark:text-zinc-400"
+                  >
+                    or at percentile
+                  </label>
+                  <input
+                    type="number"
+                    id="hedgePercentile"
+                    min={1}
+                    max={99.9}
+                    step="any"
+                    placeholder="off"
+                    value={hedgePercentile}
+                    onChange={(e) => setHedgePercentile(e.target.value)}
+                    className="w-20 px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
             </div>
 
             {/* Actions */}
@@ -291,6 +1237,14 @@ export default function Home() {
                     "Run Test"
                   )}
                 </button>
+                {isLoading && (
+                  <button
+                    onClick={() => runController.current?.abort()}
+                    className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
                 <button
                   onClick={warmCache}
                   disabled={isWarmingCache}
@@ -304,7 +1258,30 @@ export default function Home() {
                     "Warm Cache"
                   )}
                 </button>
-                {results.length > 0 && (
+                <button
+                  onClick={handleInvalidateCache}
+                  disabled={isInvalidatingCache}
+                  className="px-4 py-2 bg-orange-600 hover:bg-orange-700 disabled:bg-orange-400 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
+                >
+                  {isInvalidatingCache ? (
+                    <>
+                      <Spinner /> Invalidating...
+                    </>
+                  ) : (
+                    "Invalidate Cache"
+                  )}
+                </button>
+                {CACHE_STRATEGIES.includes(httpClient) && (
+                  <button
+                    onClick={handleColdHot}
+                    disabled={isLoading}
+                    title="Invalidate the cache, then run once cold and once hot"
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors"
+                  >
+                    Run Cold, Then Hot
+                  </button>
+                )}
+                {(comparison || latestSingleResult || coldHot) && (
                   <button
                     onClick={clearResults}
                     className="px-4 py-2 bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 dark:hover:bg-zinc-600 text-zinc-700 dark:text-zinc-300 rounded-lg font-medium transition-colors"
@@ -316,6 +1293,444 @@ export default function Home() {
             </div>
           </div>
 
+          {/* Target */}
+          <div className="mt-6 pt-6 border-t border-zinc-200 dark:border-zinc-800">
+            <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+              Target
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <div className="space-y-2 md:col-span-2">
+                <label
+                  htmlFor="targetUrl"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                >
+                  URL
+                </label>
+                <input
+                  type={useMockUpstream ? "text" : "url"}
+                  id="targetUrl"
+                  value={
+                    useMockUpstream
+                      ? buildMockUpstreamUrl(mockUpstream)
+                      : targetUrl
+                  }
+                  onChange={(e) => setTargetUrl(e.target.value)}
+                  disabled={useMockUpstream}
+                  className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                />
+                <label className="flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+                  <input
+                    type="checkbox"
+                    checked={useMockUpstream}
+                    onChange={(e) => setUseMockUpstream(e.target.checked)}
+                  />
+                  Use the built-in mock upstream
+                </label>
+                <label className="flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+                  <input
+                    type="checkbox"
+                    checked={injectFaults}
+                    onChange={(e) => setInjectFaults(e.target.checked)}
+                  />
+                  Route through the fault-injection proxy
+                </label>
+                {!useMockUpstream && (
+                  <p className="text-xs text-zinc-500">
+                    Host must be in the server allowlist
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label
+                  htmlFor="targetMethod"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                >
+                  Method
+                </label>
+                <select
+                  id="targetMethod"
+                  value={targetMethod}
+                  onChange={(e) => setTargetMethod(e.target.value as HttpMethod)}
+                  className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {HTTP_METHODS.map((m) => (
+                    <option key={m} value={m}>
+                      {m}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label
+                  htmlFor="expectedStatus"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                >
+                  Expected Status
+                </label>
+                <input
+                  type="number"
+                  id="expectedStatus"
+                  min={100}
+                  max={599}
+                  value={expectedStatus}
+                  onChange={(e) =>
+                    setExpectedStatus(parseInt(e.target.value) || 200)
+                  }
+                  className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <label className="flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+                  <input
+                    type="checkbox"
+                    checked={conditional}
+                    onChange={(e) => setConditional(e.target.checked)}
+                  />
+                  Conditional requests
+                </label>
+                <p className="text-xs text-zinc-500">
+                  Revalidates with the last ETag / Last-Modified; 304 counts
+                  as success
+                </p>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <label
+                  htmlFor="targetHeaders"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                >
+                  Headers
+                </label>
+                <textarea
+                  id="targetHeaders"
+                  rows={3}
+                  value={targetHeaders}
+                  onChange={(e) => setTargetHeaders(e.target.value)}
+                  placeholder="Authorization: Bearer ..."
+                  className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-zinc-500">One Name: value per line</p>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <label
+                  htmlFor="targetBody"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                >
+                  Body
+                </label>
+                <textarea
+                  id="targetBody"
+                  rows={3}
+                  value={targetBody}
+                  onChange={(e) => setTargetBody(e.target.value)}
+                  disabled={targetMethod === "GET" || targetMethod === "HEAD"}
+                  className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                />
+                <p className="text-xs text-zinc-500">
+                  Ignored for GET and HEAD
+                </p>
+              </div>
+            </div>
+
+            {useMockUpstream && (
+              <div className="mt-6 grid grid-cols-2 md:grid-cols-5 gap-6">
+                {(
+                  [
+                    ["latency", "Base Latency (ms)", 0, 30000],
+                    ["jitter", "Jitter (ms)", 0, 30000],
+                    ["items", "Payload (wines)", 0, 100000],
+                  ] as const
+                ).map(([field, label, min, max]) => (
+                  <div key={field} className="space-y-2">
+                    <label
+                      htmlFor={`mock-${field}`}
+                      className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                    >
+                      {label}
+                    </label>
+                    <input
+                      type="number"
+                      id={`mock-${field}`}
+                      min={min}
+                      max={max}
+                      value={mockUpstream[field]}
+                      onChange={(e) =>
+                        setMockUpstream((current) => ({
+                          ...current,
+                          [field]: Math.min(
+                            max,
+                            Math.max(min, parseInt(e.target.value) || 0)
+                          ),
+                        }))
+                      }
+                      className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                ))}
+
+                <div className="space-y-2">
+                  <label
+                    htmlFor="mock-distribution"
+                    className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                  >
+                    Jitter Distribution
+                  </label>
+                  <select
+                    id="mock-distribution"
+                    value={mockUpstream.distribution}
+                    onChange={(e) =>
+                      setMockUpstream((current) => ({
+                        ...current,
+                        distribution: e.target.value as JitterDistribution,
+                      }))
+                    }
+                    className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {JITTER_DISTRIBUTIONS.map((distribution) => (
+                      <option key={distribution} value={distribution}>
+                        {distribution}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <label
+                    htmlFor="mock-serverConcurrency"
+                    className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                  >
+                    Server Concurrency
+                  </label>
+                  <input
+                    type="number"
+                    id="mock-serverConcurrency"
+                    min={1}
+                    max={1000}
+                    placeholder="Unlimited"
+                    value={mockUpstream.serverConcurrency ?? ""}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value);
+                      setMockUpstream((current) => ({
+                        ...current,
+                        serverConcurrency:
+                          value > 0 ? Math.min(1000, value) : undefined,
+                      }));
+                    }}
+                    className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-zinc-500">
+                    Requests beyond this queue at the mock
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {injectFaults && (
+              <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-6">
+                {(
+                  [
+                    ["errorRate", "5xx Rate"],
+                    ["resetRate", "Reset Rate"],
+                    ["timeoutRate", "Timeout Rate"],
+                    ["slowRate", "Slow Body Rate"],
+                  ] as const
+                ).map(([field, label]) => (
+                  <div key={field} className="space-y-2">
+                    <label
+                      htmlFor={`fault-${field}`}
+                      className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                    >
+                      {label}
+                    </label>
+                    <input
+                      type="number"
+                      id={`fault-${field}`}
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={faultOptions[field]}
+                      onChange={(e) =>
+                        setFaultOptions((current) => ({
+                          ...current,
+                          [field]: Math.min(
+                            1,
+                            Math.max(0, parseFloat(e.target.value) || 0)
+                          ),
+                        }))
+                      }
+                      className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                ))}
+                {(
+                  [
+                    ["errorStatus", "Error Status", 500, 599],
+                    ["timeoutMs", "Timeout Hang (ms)", 0, 120000],
+                    ["dripBytes", "Drip Chunk (bytes)", 1, 1000000],
+                    ["dripIntervalMs", "Drip Interval (ms)", 0, 10000],
+                  ] as const
+                ).map(([field, label, min, max]) => (
+                  <div key={field} className="space-y-2">
+                    <label
+                      htmlFor={`fault-${field}`}
+                      className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                    >
+                      {label}
+                    </label>
+                    <input
+                      type="number"
+                      id={`fault-${field}`}
+                      min={min}
+                      max={max}
+                      value={faultOptions[field]}
+                      onChange={(e) =>
+                        setFaultOptions((current) => ({
+                          ...current,
+                          [field]: Math.min(
+                            max,
+                            Math.max(min, parseInt(e.target.value) || min)
+                          ),
+                        }))
+                      }
+                      className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                ))}
+                <p className="col-span-2 md:col-span-4 text-xs text-zinc-500">
+                  Each request draws at most one fault; rates must add up to
+                  at most 1.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Retry Policy */}
+          <div className="mt-6 pt-6 border-t border-zinc-200 dark:border-zinc-800">
+            <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+              Retry Policy
+            </h3>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-6">
+              <div className="space-y-2">
+                <label
+                  htmlFor="maxRetries"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                >
+                  Max Retries
+                </label>
+                <input
+                  type="number"
+                  id="maxRetries"
+                  min={0}
+                  max={10}
+                  value={retryPolicy.maxRetries}
+                  onChange={(e) =>
+                    setRetryPolicy((current) => ({
+                      ...current,
+                      maxRetries: Math.min(
+                        10,
+                        Math.max(0, parseInt(e.target.value) || 0)
+                      ),
+                    }))
+                  }
+                  className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              {(
+                [
+                  ["attemptTimeoutMs", "Attempt Timeout (ms)"],
+                  ["deadlineMs", "Total Deadline (ms)"],
+                ] as const
+              ).map(([field, label]) => (
+                <div key={field} className="space-y-2">
+                  <label
+                    htmlFor={field}
+                    className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                  >
+                    {label}
+                  </label>
+                  <input
+                    type="number"
+                    id={field}
+                    min={1}
+                    max={120000}
+                    placeholder="None"
+                    value={retryPolicy[field] ?? ""}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value);
+                      setRetryPolicy((current) => ({
+                        ...current,
+                        [field]: value > 0 ? Math.min(120000, value) : undefined,
+                      }));
+                    }}
+                    className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              ))}
+              {(
+                [
+                  ["baseDelayMs", "Base Backoff (ms)"],
+                  ["maxDelayMs", "Max Backoff (ms)"],
+                ] as const
+              ).map(([field, label]) => (
+                <div key={field} className="space-y-2">
+                  <label
+                    htmlFor={field}
+                    className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                  >
+                    {label}
+                  </label>
+                  <input
+                    type="number"
+                    id={field}
+                    min={1}
+                    max={120000}
+                    value={retryPolicy[field]}
+                    onChange={(e) =>
+                      setRetryPolicy((current) => ({
+                        ...current,
+                        [field]: Math.min(
+                          120000,
+                          Math.max(1, parseInt(e.target.value) || 1)
+                        ),
+                      }))
+                    }
+                    className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              ))}
+              <div className="space-y-2">
+                <label
+                  htmlFor="retryableStatuses"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                >
+                  Retry On
+                </label>
+                <input
+                  type="text"
+                  id="retryableStatuses"
+                  value={retryableStatuses}
+                  onChange={(e) => setRetryableStatuses(e.target.value)}
+                  className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+            <label className="mt-3 flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+              <input
+                type="checkbox"
+                checked={retryPolicy.jitter}
+                onChange={(e) =>
+                  setRetryPolicy((current) => ({
+                    ...current,
+                    jitter: e.target.checked,
+                  }))
+                }
+              />
+              Full jitter on exponential backoff. Network errors and
+              timeouts are always retried; statuses only when listed.
+            </label>
+          </div>
+
           {error && (
             <div className="mt-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-lg">
               {error}
@@ -323,32 +1738,83 @@ export default function Home() {
           )}
         </div>
 
+        {/* Run in progress */}
+        {liveRun && (
+          <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+                Running {getModeLabel(liveRun)}
+              </h2>
+              <span className="px-2 py-1 rounded text-xs font-medium bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400">
+                {getStrategyLabel(currentHttpClient)}
+              </span>
+              <span className="text-sm text-zinc-500">
+                {liveRun.results.length}/{liveRun.fetchCount} fetches
+              </span>
+            </div>
+            <div className="mb-6">
+              <TraceTimeline
+                traces={liveRun.traces}
+                totalDuration={Math.max(
+                  0,
+                  ...liveRun.traces.map((t) => t.endTime)
+                )}
+                mode={liveRun.mode}
+                fetchCount={liveRun.fetchCount}
+              />
+            </div>
+            <IndividualFetchGraph
+              results={liveRun.results}
+              mode={liveRun.mode}
+              fetchCount={liveRun.fetchCount}
+            />
+          </div>
+        )}
+
         {/* Single Mode Results */}
         {latestSingleResult && (
           <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6">
             <div className="flex items-center justify-between mb-4">
               <div className="flex items-center gap-3">
                 <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
-                  {latestSingleResult.mode === "parallel"
-                    ? "Parallel"
-                    : "Sequential"}{" "}
-                  Results
+                  {getModeLabel(latestSingleResult)} Results
                 </h2>
                 <span className="px-2 py-1 rounded text-xs font-medium bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400">
-                  {currentHttpClient === "fetch-nocache" ? "No Cache" : "Unstable Cache"}
+                  {getStrategyLabel(currentHttpClient)}
                 </span>
+                {latestSingleResult.transport !== undefined && (
+                  <span className="px-2 py-1 rounded text-xs font-medium bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300">
+                    {TRANSPORT_LABELS[latestSingleResult.transport]}
+                    {latestSingleResult.maxSockets !== undefined &&
+                      ` (max ${latestSingleResult.maxSockets})`}
+                  </span>
+                )}
+                {latestSingleResult.memoryCache !== undefined && (
+                  <span className="px-2 py-1 rounded text-xs font-medium bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300">
+                    TTL {latestSingleResult.memoryCache.ttl}s, max{" "}
+                    {latestSingleResult.memoryCache.maxEntries} entries
+                    {latestSingleResult.memoryCache.maxStale !== undefined &&
+                      `, stale for ${latestSingleResult.memoryCache.maxStale}s`}
+                  </span>
+                )}
+                {latestSingleResult.pool !== undefined && (
+                  <span className="px-2 py-1 rounded text-xs font-medium bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300">
+                    {latestSingleResult.pool.connections} connections,
+                    pipelining {latestSingleResult.pool.pipelining}
+                  </span>
+                )}
               </div>
-              {"cacheStatus" in latestSingleResult && (
+              {latestSingleResult.cacheStatus !== undefined && (
                 <span
                   className={`px-2 py-1 rounded-full text-xs font-medium ${getCacheStatusColor(latestSingleResult.cacheStatus)}`}
                 >
-                  Cache: {latestSingleResult.cacheStatus}
+                  {getCacheLabel(latestSingleResult)}
                 </span>
               )}
             </div>
 
             {/* Summary Stats */}
-            <div className="grid grid-cols-3 gap-4 mb-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
               <div className="text-center p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
                 <div className="text-2xl font-bold font-mono text-zinc-900 dark:text-zinc-100">
                   {latestSingleResult.totalLatency.toFixed(2)}ms
@@ -359,23 +1825,115 @@ export default function Home() {
                 <div className="text-2xl font-bold font-mono text-zinc-900 dark:text-zinc-100">
                   {latestSingleResult.averageLatency.toFixed(2)}ms
                 </div>
-                <div className="text-xs text-zinc-500">Avg per Fetch</div>
-              </div>
-              <div className="text-center p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
-                <div className="text-2xl font-bold font-mono text-zinc-900 dark:text-zinc-100">
-                  {latestSingleResult.fetchCount}
+                <div className="text-xs text-zinc-500">Avg per Fetch</div>
+              </div>
+              <div className="text-center p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
+                <div className="text-2xl font-bold font-mono text-zinc-900 dark:text-zinc-100">
+                  {latestSingleResult.fetchCount}
+                </div>
+                <div className="text-xs text-zinc-500">Fetches</div>
+              </div>
+              <div className="text-center p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
+                <div
+                  className={`text-2xl font-bold font-mono ${getFailureCount(latestSingleResult) > 0 ? "text-red-600 dark:text-red-400" : "text-zinc-900 dark:text-zinc-100"}`}
+                >
+                  {getFailureCount(latestSingleResult)}
+                </div>
+                <div className="text-xs text-zinc-500">Failed</div>
+              </div>
+              {latestSingleResult.cancelledCount !== undefined && (
+                <div className="text-center p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
+                  <div className="text-2xl font-bold font-mono text-zinc-900 dark:text-zinc-100">
+                    {latestSingleResult.cancelledCount}
+                  </div>
+                  <div className="text-xs text-zinc-500">
+                    Cancelled ({latestSingleResult.completion?.mode})
+                  </div>
+                </div>
+              )}
+              {latestSingleResult.retryCount !== undefined && (
+                <div className="text-center p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
+                  <div className="text-2xl font-bold font-mono text-zinc-900 dark:text-zinc-100">
+                    {latestSingleResult.retryCount}
+                  </div>
+                  <div className="text-xs text-zinc-500">Retries</div>
+                </div>
+              )}
+              {latestSingleResult.reusedSocketCount !== undefined && (
+                <div className="text-center p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
+                  <div className="text-2xl font-bold font-mono text-zinc-900 dark:text-zinc-100">
+                    {latestSingleResult.reusedSocketCount}/
+                    {latestSingleResult.fetchCount}
+                  </div>
+                  <div className="text-xs text-zinc-500">Reused Connections</div>
+                </div>
+              )}
+              {latestSingleResult.upstreamCalls !== undefined && (
+                <div className="text-center p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
+                  <div className="text-2xl font-bold font-mono text-zinc-900 dark:text-zinc-100">
+                    {latestSingleResult.upstreamCalls}
+                  </div>
+                  <div className="text-xs text-zinc-500">
+                    Upstream Calls ({latestSingleResult.coalescedCount}{" "}
+                    coalesced)
+                  </div>
+                </div>
+              )}
+              {latestSingleResult.cacheCounts !== undefined &&
+                latestSingleResult.hitRatio !== undefined && (
+                  <div className="text-center p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
+                    <div className="text-2xl font-bold font-mono text-zinc-900 dark:text-zinc-100">
+                      {(latestSingleResult.hitRatio * 100).toFixed(0)}%
+                    </div>
+                    <div className="text-xs text-zinc-500">
+                      Cache Hits ({latestSingleResult.cacheCounts.hit} fresh,{" "}
+                      {latestSingleResult.cacheCounts.stale} stale,{" "}
+                      {latestSingleResult.cacheCounts.miss} missed)
+                    </div>
+                  </div>
+                )}
+              {latestSingleResult.maxDataAge !== undefined && (
+                <div className="text-center p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
+                  <div className="text-2xl font-bold font-mono text-zinc-900 dark:text-zinc-100">
+                    {formatAge(latestSingleResult.maxDataAge)}
+                  </div>
+                  <div className="text-xs text-zinc-500">Cached Data Age</div>
+                </div>
+              )}
+              {latestSingleResult.encodedBytes !== undefined && (
+                <div className="text-center p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
+                  <div className="text-2xl font-bold font-mono text-zinc-900 dark:text-zinc-100">
+                    {formatBytes(latestSingleResult.encodedBytes)}
+                  </div>
+                  <div className="text-xs text-zinc-500">
+                    Transferred ({formatBytes(latestSingleResult.decodedBytes!)}{" "}
+                    decoded, {latestSingleResult.notModifiedCount} not
+                    modified)
+                  </div>
                 </div>
-                <div className="text-xs text-zinc-500">Fetches</div>
-              </div>
+              )}
             </div>
 
-            {/* Network Timings (if using got) */}
-            {hasNetworkTimings(latestSingleResult) && (
+            {/* Latency Distribution */}
+            <div className="mb-6">
+              <LatencyStatsDisplay stats={latestSingleResult.latencyStats} />
+            </div>
+
+            {/* Hedging (if using the hedged strategy) */}
+            {isHedgedResponse(latestSingleResult) && (
               <div className="mb-6">
+                <HedgingSummary response={latestSingleResult} />
+              </div>
+            )}
+
+            {/* Network Timings (if the strategy reported them) */}
+            {hasNetworkTimings(latestSingleResult) && (
+              <div className="mb-6 space-y-6">
                 <NetworkTimingsDisplay
                   timings={latestSingleResult.aggregatedTimings}
                   title="Average Network Timing Breakdown"
                 />
+                <PhaseStatsTable stats={latestSingleResult.timingStats} />
               </div>
             )}
 
@@ -403,6 +1961,21 @@ export default function Home() {
           </div>
         )}
 
+        {/* Cold vs Hot */}
+        {coldHot && (
+          <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+                Cold vs Hot Cache
+              </h2>
+              <span className="px-2 py-1 rounded text-xs font-medium bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400">
+                {getModeLabel(coldHot.cold)}
+              </span>
+            </div>
+            <ColdHotSummary result={coldHot} />
+          </div>
+        )}
+
         {/* Comparison View */}
         {comparison && (
           <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6">
@@ -411,23 +1984,25 @@ export default function Home() {
                 Comparison Results
               </h2>
               <span className="px-2 py-1 rounded text-xs font-medium bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400">
-                {currentHttpClient === "fetch-nocache" ? "No Cache" : "Unstable Cache"}
+                {getStrategyLabel(currentHttpClient)}
               </span>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-              {/* Parallel Results */}
-              {comparison.parallel && (
-                <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+              {comparisonRuns.map((run) => (
+                <div
+                  key={run.mode}
+                  className={`p-4 rounded-lg border ${MODE_COLORS[run.mode].panel}`}
+                >
                   <div className="flex items-center justify-between mb-3">
-                    <h3 className="font-semibold text-blue-900 dark:text-blue-100">
-                      Parallel
+                    <h3 className={`font-semibold ${MODE_COLORS[run.mode].heading}`}>
+                      {getModeLabel(run)}
                     </h3>
-                    {"cacheStatus" in comparison.parallel && (
+                    {run.cacheStatus !== undefined && (
                       <span
-                        className={`px-2 py-1 rounded-full text-xs font-medium ${getCacheStatusColor(comparison.parallel.cacheStatus)}`}
+                        className={`px-2 py-1 rounded-full text-xs font-medium ${getCacheStatusColor(run.cacheStatus)}`}
                       >
-                        Cache: {comparison.parallel.cacheStatus}
+                        {getCacheLabel(run)}
                       </span>
                     )}
                   </div>
@@ -437,7 +2012,7 @@ export default function Home() {
                         Total Time:
                       </span>
                       <span className="font-mono font-semibold text-zinc-900 dark:text-zinc-100">
-                        {comparison.parallel.totalLatency.toFixed(2)}ms
+                        {run.totalLatency.toFixed(2)}ms
                       </span>
                     </div>
                     <div className="flex justify-between">
@@ -445,66 +2020,75 @@ export default function Home() {
                         Avg per Fetch:
                       </span>
                       <span className="font-mono text-zinc-900 dark:text-zinc-100">
-                        {comparison.parallel.averageLatency.toFixed(2)}ms
+                        {run.averageLatency.toFixed(2)}ms
                       </span>
                     </div>
-                  </div>
-                  {hasNetworkTimings(comparison.parallel) && (
-                    <div className="mt-3 pt-3 border-t border-blue-200 dark:border-blue-700">
-                      <NetworkTimingsCompact
-                        timings={comparison.parallel.aggregatedTimings}
-                      />
-                    </div>
-                  )}
-                </div>
-              )}
-
-              {/* Sequential Results */}
-              {comparison.sequential && (
-                <div className="p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg border border-purple-200 dark:border-purple-800">
-                  <div className="flex items-center justify-between mb-3">
-                    <h3 className="font-semibold text-purple-900 dark:text-purple-100">
-                      Sequential
-                    </h3>
-                    {"cacheStatus" in comparison.sequential && (
-                      <span
-                        className={`px-2 py-1 rounded-full text-xs font-medium ${getCacheStatusColor(comparison.sequential.cacheStatus)}`}
-                      >
-                        Cache: {comparison.sequential.cacheStatus}
-                      </span>
-                    )}
-                  </div>
-                  <div className="space-y-2 text-sm">
                     <div className="flex justify-between">
                       <span className="text-zinc-600 dark:text-zinc-400">
-                        Total Time:
+                        Failed:
                       </span>
-                      <span className="font-mono font-semibold text-zinc-900 dark:text-zinc-100">
-                        {comparison.sequential.totalLatency.toFixed(2)}ms
+                      <span className="font-mono text-zinc-900 dark:text-zinc-100">
+                        {getFailureCount(run)}/{run.fetchCount}
                       </span>
                     </div>
+                    {run.cancelledCount !== undefined && (
+                      <div className="flex justify-between">
+                        <span className="text-zinc-600 dark:text-zinc-400">
+                          Cancelled:
+                        </span>
+                        <span className="font-mono text-zinc-900 dark:text-zinc-100">
+                          {run.cancelledCount}/{run.fetchCount}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-zinc-600 dark:text-zinc-400">
-                        Avg per Fetch:
+                        p95 / p99:
                       </span>
                       <span className="font-mono text-zinc-900 dark:text-zinc-100">
-                        {comparison.sequential.averageLatency.toFixed(2)}ms
+                        {run.latencyStats.p95.toFixed(2)} /{" "}
+                        {run.latencyStats.p99.toFixed(2)}ms
                       </span>
                     </div>
                   </div>
-                  {hasNetworkTimings(comparison.sequential) && (
-                    <div className="mt-3 pt-3 border-t border-purple-200 dark:border-purple-700">
-                      <NetworkTimingsCompact
-                        timings={comparison.sequential.aggregatedTimings}
-                      />
+                  {hasNetworkTimings(run) && (
+                    <div className={`mt-3 pt-3 border-t ${MODE_COLORS[run.mode].divider}`}>
+                      <NetworkTimingsCompact timings={run.aggregatedTimings} />
                     </div>
                   )}
                 </div>
-              )}
+              ))}
             </div>
 
+            {/* Trial Statistics */}
+            {comparison.trialStats && (
+              <div className="mb-6 p-4 bg-zinc-100 dark:bg-zinc-800 rounded-lg space-y-2 text-center">
+                <SpeedupVerdict
+                  estimate={comparison.trialStats.parallelVsSequential}
+                  candidate="Parallel"
+                  baseline="sequential"
+                  className="text-lg font-semibold"
+                />
+                <SpeedupVerdict
+                  estimate={comparison.trialStats.pooledVsSequential}
+                  candidate={
+                    comparison.pooled
+                      ? getModeLabel(comparison.pooled)
+                      : "Pooled"
+                  }
+                  baseline="sequential"
+                  className="text-sm"
+                />
+                <p className="text-xs text-zinc-500">
+                  Mean of {comparison.trialStats.trials}{" "}
+                  interleaved trials per mode; bootstrap CI and permutation
+                  test on total latency. Charts below show the median run.
+                </p>
+              </div>
+            )}
+
             {/* Comparison Summary */}
-            {comparison.parallel && comparison.sequential && (
+            {!comparison.trialStats && comparison.parallel && comparison.sequential && (
               <div className="mb-6 p-4 bg-zinc-100 dark:bg-zinc-800 rounded-lg">
                 <div className="text-center">
                   {comparison.parallel.totalLatency <
@@ -552,48 +2136,318 @@ export default function Home() {
                       Both modes performed equally
                     </p>
                   )}
+                  {comparison.pooled && (
+                    <p className="mt-2 text-sm text-teal-600 dark:text-teal-400">
+                      {getModeLabel(comparison.pooled)} took{" "}
+                      {comparison.pooled.totalLatency.toFixed(2)}ms:{" "}
+                      {(
+                        comparison.pooled.totalLatency /
+                        comparison.parallel.totalLatency
+                      ).toFixed(2)}
+                      × parallel,{" "}
+                      {(
+                        comparison.pooled.totalLatency /
+                        comparison.sequential.totalLatency
+                      ).toFixed(2)}
+                      × sequential
+                    </p>
+                  )}
                 </div>
               </div>
             )}
 
             {/* Side-by-side Trace Timelines */}
-            {comparison.parallel && comparison.sequential && (
+            {comparisonRuns.length > 1 && (
               <div className="mb-6">
                 <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-4">
                   Backend Trace Timeline Comparison
                 </h3>
-                <ComparisonTraceTimeline
-                  parallelTraces={comparison.parallel.traces}
-                  sequentialTraces={comparison.sequential.traces}
-                  parallelTotal={comparison.parallel.totalLatency}
-                  sequentialTotal={comparison.sequential.totalLatency}
-                />
+                <ComparisonTraceTimeline runs={comparisonRuns} />
               </div>
             )}
 
             {/* Side-by-side Individual Fetch Latencies */}
-            {comparison.parallel && comparison.sequential && (
+            {comparisonRuns.length > 1 && (
               <div className="space-y-4">
                 <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
                   Individual Fetch Latencies Comparison
                 </h3>
                 <ComparisonFetchGraph
-                  parallelResults={comparison.parallel.results}
-                  sequentialResults={comparison.sequential.results}
-                  showNetworkBreakdown={hasNetworkTimings(comparison.parallel) && hasNetworkTimings(comparison.sequential)}
+                  runs={comparisonRuns}
+                  showNetworkBreakdown={comparisonRuns.every(hasNetworkTimings)}
                 />
               </div>
             )}
           </div>
         )}
 
+        {/* Concurrency Sweep */}
+        <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6">
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+            Concurrency Sweep
+          </h2>
+
+          <div className="flex flex-wrap items-end gap-6 mb-6">
+            <div className="space-y-2">
+              <label
+                htmlFor="sweepLevels"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+              >
+                Concurrency Levels
+              </label>
+              <input
+                type="text"
+                id="sweepLevels"
+                value={sweepLevels}
+                onChange={(e) => setSweepLevels(e.target.value)}
+                className="w-56 px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div className="space-y-2">
+              <label
+                htmlFor="sweepRepetitions"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+              >
+                Repetitions
+              </label>
+              <input
+                type="number"
+                id="sweepRepetitions"
+                min={1}
+                max={10}
+                value={sweepRepetitions}
+                onChange={(e) =>
+                  setSweepRepetitions(
+                    Math.min(10, Math.max(1, parseInt(e.target.value) || 1))
+                  )
+                }
+                className="w-24 px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              onClick={handleSweep}
+              disabled={isSweeping}
+              className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
+            >
+              {isSweeping ? (
+                <>
+                  <Spinner /> Sweeping...
+                </>
+              ) : (
+                "Run Sweep"
+              )}
+            </button>
+            <p className="text-xs text-zinc-500">
+              Runs {fetchCount} fetches per repetition at each level
+            </p>
+          </div>
+
+          {sweepResult && <SweepChart sweep={sweepResult} />}
+        </div>
+
+        {/* Request Scenarios */}
+        <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6">
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+            Request Scenarios
+          </h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+            <div className="space-y-2 md:col-span-2">
+              <label
+                htmlFor="scenario"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+              >
+                Scenario
+              </label>
+              <textarea
+                id="scenario"
+                rows={12}
+                value={scenarioText}
+                onChange={(e) => setScenarioText(e.target.value)}
+                spellCheck={false}
+                className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-zinc-500">
+                Steps run once their dependencies answer. Use{" "}
+                <code>{"{{step.path}}"}</code> to read an earlier response and{" "}
+                <code>forEach</code> with <code>{"{{item.path}}"}</code> to
+                send one request per element.
+              </p>
+            </div>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label
+                  htmlFor="scenarioMode"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                >
+                  Mode
+                </label>
+                <select
+                  id="scenarioMode"
+                  value={scenarioMode}
+                  onChange={(e) =>
+                    setScenarioMode(e.target.value as ScenarioMode | "compare")
+                  }
+                  className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="compare">Compare all</option>
+                  {SCENARIO_MODES.map((m) => (
+                    <option key={m} value={m}>
+                      {m}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {scenarioMode !== "sequential" && scenarioMode !== "parallel" && (
+                <div className="space-y-2">
+                  <label
+                    htmlFor="batchSize"
+                    className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                  >
+                    Batch Size
+                  </label>
+                  <input
+                    type="number"
+                    id="batchSize"
+                    min={1}
+                    max={100}
+                    value={batchSize}
+                    onChange={(e) =>
+                      setBatchSize(
+                        Math.min(100, Math.max(1, parseInt(e.target.value) || 1))
+                      )
+                    }
+                    className="w-24 px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-zinc-500">
+                    Batched: fan-out requests sent at once
+                  </p>
+                </div>
+              )}
+              <button
+                onClick={handleScenario}
+                disabled={isRunningScenario}
+                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
+              >
+                {isRunningScenario ? (
+                  <>
+                    <Spinner /> Running...
+                  </>
+                ) : (
+                  "Run Scenario"
+                )}
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            {scenarioResults.map((run) => (
+              <div key={run.mode} className="space-y-2">
+                <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 text-sm">
+                  <span
+                    className={`font-semibold ${MODE_COLORS[SCENARIO_TIMELINE_MODES[run.mode]].text}`}
+                  >
+                    {run.mode}
+                    {run.batchSize !== undefined && ` (${run.batchSize})`}
+                  </span>
+                  <span className="font-mono text-zinc-900 dark:text-zinc-100">
+                    {run.totalLatency.toFixed(1)}ms
+                  </span>
+                  <span className="text-xs text-zinc-500">
+                    Critical path {run.criticalPathLatency.toFixed(1)}ms:{" "}
+                    {run.criticalPath.join(" → ")}
+                  </span>
+                  <span className="text-xs text-zinc-500">
+                    {run.requestCount} requests
+                    {run.failedCount > 0 && `, ${run.failedCount} failed`}
+                  </span>
+                </div>
+                <TraceTimeline
+                  traces={run.traces}
+                  totalDuration={run.totalLatency}
+                  mode={SCENARIO_TIMELINE_MODES[run.mode]}
+                  results={run.results}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Results History Table */}
-        {results.length > 0 && (
-          <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6">
-            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+        <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
               Results History
             </h2>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                aria-label="Filter by strategy"
+                value={historyStrategy}
+                onChange={(e) => {
+                  setHistoryStrategy(e.target.value as HttpClient | "");
+                  setHistoryPage(1);
+                }}
+                className="px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100"
+              >
+                <option value="">All strategies</option>
+                {STRATEGIES.map((strategy) => (
+                  <option key={strategy.id} value={strategy.id}>
+                    {strategy.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                aria-label="Filter by mode"
+                value={historyMode}
+                onChange={(e) => {
+                  setHistoryMode(e.target.value as RunMode | "");
+                  setHistoryPage(1);
+                }}
+                className="px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100"
+              >
+                <option value="">All modes</option>
+                <option value="parallel">Parallel</option>
+                <option value="sequential">Sequential</option>
+                <option value="pooled">Pooled</option>
+              </select>
+              <input
+                type="date"
+                aria-label="From date"
+                value={historyFrom}
+                onChange={(e) => {
+                  setHistoryFrom(e.target.value);
+                  setHistoryPage(1);
+                }}
+                className="px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100"
+              />
+              <span className="text-zinc-500">to</span>
+              <input
+                type="date"
+                aria-label="To date"
+                value={historyTo}
+                onChange={(e) => {
+                  setHistoryTo(e.target.value);
+                  setHistoryPage(1);
+                }}
+                className="px-2 py-1 bg-zinc-50 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100"
+              />
+              <span className="ml-2 text-zinc-500">Export:</span>
+              {EXPORT_FORMATS.map((format) => (
+                <a
+                  key={format}
+                  href={getExportUrl(format, historyFilterParams)}
+                  className="px-2 py-1 rounded-lg border border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 uppercase text-xs font-medium"
+                >
+                  {format}
+                </a>
+              ))}
+            </div>
+          </div>
 
+          {results.length === 0 ? (
+            <p className="text-sm text-zinc-500">No stored runs match.</p>
+          ) : (
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
                 <thead>
@@ -616,9 +2470,22 @@ export default function Home() {
                     <th className="text-right py-3 px-2 font-medium text-zinc-600 dark:text-zinc-400">
                       Avg (ms)
                     </th>
+                    <th className="text-right py-3 px-2 font-medium text-zinc-600 dark:text-zinc-400">
+                      p50 (ms)
+                    </th>
+                    <th className="text-right py-3 px-2 font-medium text-zinc-600 dark:text-zinc-400">
+                      p95 (ms)
+                    </th>
+                    <th className="text-right py-3 px-2 font-medium text-zinc-600 dark:text-zinc-400">
+                      p99 (ms)
+                    </th>
+                    <th className="text-right py-3 px-2 font-medium text-zinc-600 dark:text-zinc-400">
+                      Std Dev
+                    </th>
                     <th className="text-center py-3 px-2 font-medium text-zinc-600 dark:text-zinc-400">
                       Cache
                     </th>
+                    <th className="py-3 px-2" />
                   </tr>
                 </thead>
                 <tbody>
@@ -628,22 +2495,20 @@ export default function Home() {
                       className="border-b border-zinc-100 dark:border-zinc-800 hover:bg-zinc-50 dark:hover:bg-zinc-800/50"
                     >
                       <td className="py-3 px-2 text-zinc-600 dark:text-zinc-400">
-                        {result.timestamp.toLocaleTimeString()}
+                        {result.timestamp.toLocaleString()}
                       </td>
                       <td className="py-3 px-2">
                         <span className="px-2 py-1 rounded text-xs font-medium bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400">
-                          {result.httpClient === "fetch-nocache" ? "No Cache" : "Unstable Cache"}
+                          {getStrategyLabel(result.httpClient)}
                         </span>
                       </td>
                       <td className="py-3 px-2">
                         <span
-                          className={`px-2 py-1 rounded text-xs font-medium ${
-                            result.response.mode === "parallel"
-                              ? "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400"
-                              : "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400"
-                          }`}
+                          className={`px-2 py-1 rounded text-xs font-medium ${MODE_COLORS[result.response.mode].badge}`}
                         >
-                          {result.response.mode}
+                          {result.response.mode === "pooled"
+                            ? `pooled-${result.response.concurrency}`
+                            : result.response.mode}
                         </span>
                       </td>
                       <td className="py-3 px-2 text-right font-mono text-zinc-900 dark:text-zinc-100">
@@ -655,8 +2520,20 @@ export default function Home() {
                       <td className="py-3 px-2 text-right font-mono text-zinc-900 dark:text-zinc-100">
                         {result.response.averageLatency.toFixed(2)}
                       </td>
+                      <td className="py-3 px-2 text-right font-mono text-zinc-900 dark:text-zinc-100">
+                        {result.response.latencyStats.p50.toFixed(2)}
+                      </td>
+                      <td className="py-3 px-2 text-right font-mono text-zinc-900 dark:text-zinc-100">
+                        {result.response.latencyStats.p95.toFixed(2)}
+                      </td>
+                      <td className="py-3 px-2 text-right font-mono text-zinc-900 dark:text-zinc-100">
+                        {result.response.latencyStats.p99.toFixed(2)}
+                      </td>
+                      <td className="py-3 px-2 text-right font-mono text-zinc-600 dark:text-zinc-400">
+                        ±{result.response.latencyStats.stddev.toFixed(2)}
+                      </td>
                       <td className="py-3 px-2 text-center">
-                        {"cacheStatus" in result.response ? (
+                        {result.response.cacheStatus !== undefined ? (
                           <span
                             className={`px-2 py-1 rounded-full text-xs font-medium ${getCacheStatusColor(result.response.cacheStatus)}`}
                           >
@@ -666,13 +2543,61 @@ export default function Home() {
                           <span className="text-xs text-zinc-400">-</span>
                         )}
                       </td>
+                      <td className="py-3 px-2 text-right whitespace-nowrap">
+                        {EXPORT_FORMATS.map((format) => (
+                          <a
+                            key={format}
+                            href={getExportUrl(
+                              format,
+                              new URLSearchParams({ id: result.id })
+                            )}
+                            className="mr-2 text-xs text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 uppercase"
+                            title={`Export run as ${format.toUpperCase()}`}
+                          >
+                            {format}
+                          </a>
+                        ))}
+                        <button
+                          onClick={() => deleteRun(result.id)}
+                          className="text-xs text-zinc-400 hover:text-red-600 dark:hover:text-red-400"
+                          title="Delete run"
+                        >
+                          Delete
+                        </button>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
             </div>
-          </div>
-        )}
+          )}
+
+          {historyTotal > HISTORY_PAGE_SIZE && (
+            <div className="flex items-center justify-between mt-4 text-sm">
+              <span className="text-zinc-500">
+                {(historyPage - 1) * HISTORY_PAGE_SIZE + 1}–
+                {Math.min(historyPage * HISTORY_PAGE_SIZE, historyTotal)} of{" "}
+                {historyTotal}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setHistoryPage((p) => p - 1)}
+                  disabled={historyPage === 1}
+                  className="px-3 py-1 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 disabled:opacity-50 text-zinc-700 dark:text-zinc-300 rounded-lg"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setHistoryPage((p) => p + 1)}
+                  disabled={historyPage * HISTORY_PAGE_SIZE >= historyTotal}
+                  className="px-3 py-1 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 disabled:opacity-50 text-zinc-700 dark:text-zinc-300 rounded-lg"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -725,55 +2650,301 @@ function NetworkTimingsDisplay({
     { name: "Download", value: timings.avgDownload, color: "bg-violet-500" },
   ];
 
-  const total = phases.reduce((sum, p) => sum + p.value, 0);
+  const total = phases.reduce((sum, p) => sum + p.value, 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          {title}
+        </span>
+        <span className="text-xs text-zinc-500">
+          Total: {timings.avgTotal.toFixed(2)}ms
+        </span>
+      </div>
+
+      {/* Stacked bar */}
+      <div className="h-8 bg-zinc-200 dark:bg-zinc-700 rounded-lg overflow-hidden flex">
+        {phases.map((phase, i) => {
+          const widthPercent = total > 0 ? (phase.value / total) * 100 : 0;
+          if (widthPercent < 1) return null;
+          return (
+            <div
+              key={i}
+              className={`${phase.color} flex items-center justify-center transition-all`}
+              style={{ width: `${widthPercent}%` }}
+              title={`${phase.name}: ${phase.value.toFixed(2)}ms`}
+            >
+              {widthPercent > 10 && (
+                <span className="text-[9px] font-mono text-white truncate px-1">
+                  {phase.name}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3 text-xs">
+        {phases.map((phase, i) => (
+          <div key={i} className="flex items-center gap-1">
+            <div className={`w-2.5 h-2.5 rounded ${phase.color}`} />
+            <span className="text-zinc-600 dark:text-zinc-400">
+              {phase.name}:
+            </span>
+            <span className="font-mono text-zinc-900 dark:text-zinc-100">
+              {phase.value.toFixed(1)}ms
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function LatencyStatsDisplay({ stats }: { stats: SummaryStats }) {
+  const items = [
+    { label: "Min", value: stats.min },
+    { label: "p50", value: stats.p50 },
+    { label: "p90", value: stats.p90 },
+    { label: "p95", value: stats.p95 },
+    { label: "p99", value: stats.p99 },
+    { label: "Max", value: stats.max },
+    { label: "Std Dev", value: stats.stddev },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          Latency Distribution
+        </span>
+        <span className="text-xs text-zinc-500">
+          {stats.count} successful fetches
+        </span>
+      </div>
+      <div className="grid grid-cols-4 md:grid-cols-7 gap-2">
+        {items.map((item) => (
+          <div
+            key={item.label}
+            className="text-center p-2 bg-zinc-50 dark:bg-zinc-800 rounded-lg"
+          >
+            <div className="text-sm font-semibold font-mono text-zinc-900 dark:text-zinc-100">
+              {item.value.toFixed(1)}ms
+            </div>
+            <div className="text-[10px] text-zinc-500">{item.label}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ColdHotSummary({ result }: { result: ColdHotResult }) {
+  const { cold, hot } = result;
+  const rows: { label: string; value: (r: BenchmarkResponse) => string }[] = [
+    { label: "Total", value: (r) => `${r.totalLatency.toFixed(1)}ms` },
+    { label: "Avg per fetch", value: (r) => `${r.averageLatency.toFixed(1)}ms` },
+    { label: "p50", value: (r) => `${r.latencyStats.p50.toFixed(1)}ms` },
+    { label: "p95", value: (r) => `${r.latencyStats.p95.toFixed(1)}ms` },
+    {
+      label: "Cache hits",
+      value: (r) =>
+        r.hitRatio === undefined ? "-" : `${(r.hitRatio * 100).toFixed(0)}%`,
+    },
+    {
+      label: "Data age",
+      value: (r) => (r.maxDataAge === undefined ? "-" : formatAge(r.maxDataAge)),
+    },
+    {
+      label: "Transferred",
+      value: (r) =>
+        r.encodedBytes === undefined ? "-" : formatBytes(r.encodedBytes),
+    },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <table className="w-full text-sm font-mono">
+        <thead>
+          <tr className="text-xs text-zinc-500">
+            <th className="text-left font-normal py-1"></th>
+            <th className="text-right font-normal py-1">Cold</th>
+            <th className="text-right font-normal py-1">Hot</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={row.label}
+              className="border-t border-zinc-100 dark:border-zinc-800 text-zinc-900 dark:text-zinc-100"
+            >
+              <td className="py-1 text-xs text-zinc-600 dark:text-zinc-400">
+                {row.label}
+              </td>
+              <td className="py-1 text-right">{row.value(cold)}</td>
+              <td className="py-1 text-right">{row.value(hot)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-sm text-zinc-600 dark:text-zinc-400">
+        The warm cache is{" "}
+        <span className="font-semibold text-zinc-900 dark:text-zinc-100">
+          {(cold.totalLatency / hot.totalLatency).toFixed(1)}x
+        </span>{" "}
+        faster than a cold start.
+      </p>
+    </div>
+  );
+}
+
+function HedgingSummary({
+  response,
+}: {
+  response: HedgedResponse;
+}) {
+  const rows = [
+    { label: "p50", key: "p50" },
+    { label: "p95", key: "p95" },
+    { label: "p99", key: "p99" },
+  ] as const;
 
   return (
-    <div className="space-y-3">
+    <div className="space-y-2">
       <div className="flex items-center justify-between">
         <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
-          {title}
+          Hedging
         </span>
         <span className="text-xs text-zinc-500">
-          Total: {timings.avgTotal.toFixed(2)}ms
+          backup after {response.hedgeDelay.toFixed(1)}ms (
+          {response.hedgeDelaySource === "percentile"
+            ? `p${response.hedge.percentile} of recent fetches`
+            : "fixed"}
+          )
         </span>
       </div>
-
-      {/* Stacked bar */}
-      <div className="h-8 bg-zinc-200 dark:bg-zinc-700 rounded-lg overflow-hidden flex">
-        {phases.map((phase, i) => {
-          const widthPercent = total > 0 ? (phase.value / total) * 100 : 0;
-          if (widthPercent < 1) return null;
-          return (
-            <div
-              key={i}
-              className={`${phase.color} flex items-center justify-center transition-all`}
-              style={{ width: `${widthPercent}%` }}
-              title={`${phase.name}: ${phase.value.toFixed(2)}ms`}
-            >
-              {widthPercent > 10 && (
-                <span className="text-[9px] font-mono text-white truncate px-1">
-                  {phase.name}
-                </span>
-              )}
-            </div>
-          );
-        })}
-      </div>
-
-      {/* Legend */}
-      <div className="flex flex-wrap gap-3 text-xs">
-        {phases.map((phase, i) => (
-          <div key={i} className="flex items-center gap-1">
-            <div className={`w-2.5 h-2.5 rounded ${phase.color}`} />
-            <span className="text-zinc-600 dark:text-zinc-400">
-              {phase.name}:
-            </span>
-            <span className="font-mono text-zinc-900 dark:text-zinc-100">
-              {phase.value.toFixed(1)}ms
-            </span>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="text-center p-2 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
+          <div className="text-sm font-semibold font-mono text-zinc-900 dark:text-zinc-100">
+            {response.requestsSent}
           </div>
-        ))}
+          <div className="text-[10px] text-zinc-500">Requests Sent</div>
+        </div>
+        <div className="text-center p-2 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
+          <div className="text-sm font-semibold font-mono text-zinc-900 dark:text-zinc-100">
+            +{(response.extraLoad * 100).toFixed(0)}%
+          </div>
+          <div className="text-[10px] text-zinc-500">Extra Load</div>
+        </div>
+        <div className="text-center p-2 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
+          <div className="text-sm font-semibold font-mono text-zinc-900 dark:text-zinc-100">
+            {response.hedgesWon}
+          </div>
+          <div className="text-[10px] text-zinc-500">Won by Backup</div>
+        </div>
       </div>
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-zinc-500">
+            <th className="text-left font-normal py-1"></th>
+            <th className="text-right font-normal py-1">Unhedged</th>
+            <th className="text-right font-normal py-1">Hedged</th>
+            <th className="text-right font-normal py-1">Gain</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={row.key}
+              className="border-t border-zinc-100 dark:border-zinc-800 text-zinc-900 dark:text-zinc-100"
+            >
+              <td className="py-1 text-zinc-600 dark:text-zinc-400">
+                {row.label}
+              </td>
+              <td className="py-1 text-right">
+                {response.unhedgedLatencyStats[row.key].toFixed(1)}ms
+              </td>
+              <td className="py-1 text-right">
+                {response.latencyStats[row.key].toFixed(1)}ms
+              </td>
+              <td
+                className={`py-1 text-right ${response.tailGain[row.key] > 0 ? "text-green-600 dark:text-green-400" : "text-zinc-500"}`}
+              >
+                {response.tailGain[row.key].toFixed(1)}ms
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function PhaseStatsTable({ stats }: { stats: NetworkTimingStats }) {
+  const phases = [
+    { name: "DNS", stats: stats.dns, color: "bg-amber-500" },
+    { name: "TCP", stats: stats.tcp, color: "bg-orange-500" },
+    { name: "TLS", stats: stats.tls, color: "bg-red-500" },
+    { name: "TTFB", stats: stats.firstByte, color: "bg-pink-500" },
+    { name: "Download", stats: stats.download, color: "bg-violet-500" },
+    { name: "Total", stats: stats.total, color: "bg-zinc-500" },
+  ];
+  const columns: { key: keyof SummaryStats; label: string }[] = [
+    { key: "min", label: "Min" },
+    { key: "p50", label: "p50" },
+    { key: "p90", label: "p90" },
+    { key: "p95", label: "p95" },
+    { key: "p99", label: "p99" },
+    { key: "max", label: "Max" },
+    { key: "stddev", label: "Std Dev" },
+  ];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-zinc-200 dark:border-zinc-700">
+            <th className="text-left py-2 px-2 font-medium text-zinc-600 dark:text-zinc-400">
+              Phase (ms)
+            </th>
+            {columns.map((column) => (
+              <th
+                key={column.key}
+                className="text-right py-2 px-2 font-medium text-zinc-600 dark:text-zinc-400"
+              >
+                {column.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {phases.map((phase) => (
+            <tr
+              key={phase.name}
+              className="border-b border-zinc-100 dark:border-zinc-800"
+            >
+              <td className="py-1.5 px-2">
+                <div className="flex items-center gap-1.5">
+                  <div className={`w-2.5 h-2.5 rounded ${phase.color}`} />
+                  <span className="text-zinc-700 dark:text-zinc-300">
+                    {phase.name}
+                  </span>
+                </div>
+              </td>
+              {columns.map((column) => (
+                <td
+                  key={column.key}
+                  className="py-1.5 px-2 text-right font-mono text-zinc-900 dark:text-zinc-100"
+                >
+                  {phase.stats[column.key].toFixed(1)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
     </div>
   );
 }
@@ -837,18 +3008,36 @@ function TraceTimeline({
   mode,
   showNetworkBreakdown,
   results,
+  fetchCount,
 }: {
   traces: TraceSpan[];
   totalDuration: number;
-  mode: "parallel" | "sequential";
+  mode: RunMode;
   showNetworkBreakdown?: boolean;
   results?: FetchResult[];
+  fetchCount?: number; // while streaming: rows for fetches not yet reported
 }) {
   const [hoveredTrace, setHoveredTrace] = useState<number | null>(null);
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
 
-  const color = mode === "parallel" ? "bg-blue-500" : "bg-purple-500";
-  const maxEnd = Math.max(...traces.map((t) => t.endTime));
+  const color = MODE_COLORS[mode].bar;
+  // Streamed traces arrive in completion order
+  const rows =
+    fetchCount === undefined
+      ? traces
+      : Array.from({ length: fetchCount }, (_, i) =>
+          traces.find((t) => t.index === i)
+        );
+  // Losing hedge requests may finish after their fetch did
+  const maxEnd = Math.max(
+    1,
+    ...traces.map((t) =>
+      Math.max(
+        t.endTime,
+        ...(t.hedges?.map((h) => h.endTime) ?? [])
+      )
+    )
+  );
 
   const markerCount = 5;
   const markers = Array.from({ length: markerCount + 1 }, (_, i) =>
@@ -885,6 +3074,11 @@ function TraceTimeline({
           Backend Trace Timeline
         </span>
         <span className="text-xs text-zinc-500">
+          {traces.some((t) => t.critical) && (
+            <span className="text-rose-600 dark:text-rose-400 mr-3">
+              Outlined: critical path
+            </span>
+          )}
           Total: {totalDuration.toFixed(2)}ms
         </span>
       </div>
@@ -906,11 +3100,37 @@ function TraceTimeline({
 
       {/* Trace spans */}
       <div className="space-y-1">
-        {traces.map((trace) => {
+        {rows.map((trace, row) => {
+          if (!trace) {
+            return (
+              <div key={row} className="flex items-center gap-2">
+                <span className="w-16 text-xs text-zinc-500 dark:text-zinc-400 text-right shrink-0">
+                  fetch-{row + 1}
+                </span>
+                <div className="flex-1 h-6 bg-zinc-100 dark:bg-zinc-800 rounded animate-pulse" />
+                <span className="w-16 shrink-0" />
+              </div>
+            );
+          }
           const leftPercent = (trace.startTime / maxEnd) * 100;
-          const widthPercent = Math.max(
+          const queueWaitPercent = trace.queueWait
+            ? (trace.queueWait / maxEnd) * 100
+            : 0;
+          const { attempts, cancelled } = trace;
+          // With retries the main bar is the last attempt; earlier attempts
+          // and their backoff are drawn behind it
+          const priorAttempts = attempts?.slice(0, -1) ?? [];
+          const barStart = attempts
+            ? attempts[attempts.length - 1].startTime
+            : trace.startTime;
+          // Hedged fetches that sent a backup show each request as a strip
+          // along the bottom of the row
+          const hedges =
+            trace.hedges && trace.hedges.length > 1 ? trace.hedges : [];
+          const barLeftPercent = (barStart / maxEnd) * 100;
+          const barWidthPercent = Math.max(
             1,
-            ((trace.endTime - trace.startTime) / maxEnd) * 100
+            ((trace.endTime - barStart) / maxEnd) * 100
           );
 
           // Get network timings for this trace if available
@@ -918,13 +3138,55 @@ function TraceTimeline({
           const networkTimings = fetchResult && resultHasTimings(fetchResult)
             ? fetchResult.networkTimings
             : null;
+          // Only reported by strategies that time network phases
+          const socketReused = fetchResult?.socketReused;
 
           return (
             <div key={trace.index} className="flex items-center gap-2">
               <span className="w-16 text-xs text-zinc-500 dark:text-zinc-400 text-right shrink-0">
                 {trace.name}
               </span>
+              {socketReused !== undefined && (
+                <span
+                  className={`w-2 h-2 rounded-full shrink-0 ${
+                    socketReused ? "bg-green-500" : "bg-zinc-300 dark:bg-zinc-600"
+                  }`}
+                  title={socketReused ? "Reused connection" : "New connection"}
+                />
+              )}
               <div className="flex-1 h-6 bg-zinc-100 dark:bg-zinc-800 rounded relative">
+                {queueWaitPercent > 0 && (
+                  <div
+                    className="absolute top-2 bottom-2 bg-zinc-300 dark:bg-zinc-600 rounded-l"
+                    style={{
+                      left: `${leftPercent - queueWaitPercent}%`,
+                      width: `${queueWaitPercent}%`,
+                    }}
+                    title={`Queued: ${trace.queueWait!.toFixed(1)}ms`}
+                  />
+                )}
+                {priorAttempts.map((attempt) => (
+                  <div key={attempt.attempt}>
+                    <div
+                      className="absolute top-0.5 bottom-0.5 bg-red-400/70 dark:bg-red-500/60 rounded"
+                      style={{
+                        left: `${(attempt.startTime / maxEnd) * 100}%`,
+                        width: `${Math.max(0.5, (attempt.duration / maxEnd) * 100)}%`,
+                      }}
+                      title={`Attempt ${attempt.attempt}: ${attempt.error ?? "failed"} (${attempt.duration.toFixed(1)}ms)`}
+                    />
+                    {attempt.backoff !== undefined && (
+                      <div
+                        className="absolute top-2.5 bottom-2.5 bg-red-200 dark:bg-red-900/50"
+                        style={{
+                          left: `${(attempt.endTime / maxEnd) * 100}%`,
+                          width: `${(attempt.backoff / maxEnd) * 100}%`,
+                        }}
+                        title={`Backoff: ${attempt.backoff.toFixed(1)}ms`}
+                      />
+                    )}
+                  </div>
+                ))}
                 {showNetworkBreakdown && networkTimings ? (
                   <div
                     onMouseEnter={(e) => handleMouseEnter(e, trace.index)}
@@ -934,25 +3196,62 @@ function TraceTimeline({
                   >
                     <NetworkTimingBar
                       timings={networkTimings}
-                      leftPercent={leftPercent}
-                      widthPercent={widthPercent}
+                      leftPercent={barLeftPercent}
+                      widthPercent={barWidthPercent}
                     />
                   </div>
                 ) : (
                   <div
-                    className={`absolute top-0.5 bottom-0.5 ${color} rounded flex items-center justify-center transition-all duration-300`}
+                    className={`absolute top-0.5 bottom-0.5 ${
+                      cancelled
+                        ? "bg-zinc-200 dark:bg-zinc-700 border border-dashed border-zinc-400 dark:border-zinc-500"
+                        : color
+                    } rounded flex items-center justify-center transition-all duration-300`}
                     style={{
-                      left: `${leftPercent}%`,
-                      width: `${widthPercent}%`,
+                      left: `${barLeftPercent}%`,
+                      width: `${barWidthPercent}%`,
                     }}
+                    title={cancelled ? trace.error : undefined}
                   >
-                    {widthPercent > 8 && (
-                      <span className="text-[9px] font-mono text-white px-1 truncate">
-                        {trace.duration.toFixed(1)}ms
+                    {barWidthPercent > 8 && (
+                      <span
+                        className={`text-[9px] font-mono px-1 truncate ${
+                          cancelled
+                            ? "text-zinc-500 dark:text-zinc-400"
+                            : "text-white"
+                        }`}
+                      >
+                        {cancelled
+                          ? "cancelled"
+                          : `${trace.duration.toFixed(1)}ms`}
                       </span>
                     )}
                   </div>
                 )}
+                {trace.critical && (
+                  <div
+                    className="absolute top-0 bottom-0 rounded ring-2 ring-rose-500 pointer-events-none"
+                    style={{
+                      left: `${barLeftPercent}%`,
+                      width: `${barWidthPercent}%`,
+                    }}
+                  />
+                )}
+                {hedges.map((hedge) => (
+                  <div
+                    key={hedge.role}
+                    className={`absolute bottom-0 h-1.5 rounded-sm ${
+                      hedge.won
+                        ? "bg-amber-500"
+                        : "bg-zinc-400/80 dark:bg-zinc-500/80"
+                    } ${hedge.role === "primary" ? "opacity-60" : ""}`}
+                    style={{
+                      left: `${(hedge.startTime / maxEnd) * 100}%`,
+                      width: `${Math.max(0.5, (hedge.duration / maxEnd) * 100)}%`,
+                    }}
+                    title={`${hedge.role === "primary" ? "Primary" : "Backup"}${hedge.won ? " (won)" : ""}: ${hedge.success ? `${hedge.duration.toFixed(1)}ms` : (hedge.error ?? "failed")}`}
+                  />
+                ))}
               </div>
               <span className="w-16 text-[10px] font-mono text-zinc-600 dark:text-zinc-400 shrink-0">
                 {trace.startTime.toFixed(1)}-{trace.endTime.toFixed(1)}
@@ -1078,20 +3377,9 @@ function NetworkTimingsTooltip({
   );
 }
 
-function ComparisonTraceTimeline({
-  parallelTraces,
-  sequentialTraces,
-  parallelTotal,
-  sequentialTotal,
-}: {
-  parallelTraces: TraceSpan[];
-  sequentialTraces: TraceSpan[];
-  parallelTotal: number;
-  sequentialTotal: number;
-}) {
+function ComparisonTraceTimeline({ runs }: { runs: BenchmarkResponse[] }) {
   const maxEnd = Math.max(
-    ...parallelTraces.map((t) => t.endTime),
-    ...sequentialTraces.map((t) => t.endTime)
+    ...runs.flatMap((run) => run.traces.map((t) => t.endTime))
   );
 
   const markerCount = 5;
@@ -1116,79 +3404,55 @@ function ComparisonTraceTimeline({
         ))}
       </div>
 
-      {/* Parallel Timeline */}
-      <div className="space-y-1">
-        <div className="flex items-center gap-2 mb-2">
-          <div className="w-3 h-3 bg-blue-500 rounded" />
-          <span className="text-xs font-medium text-zinc-700 dark:text-zinc-300">
-            Parallel
-          </span>
-          <span className="text-xs text-zinc-500">
-            ({parallelTotal.toFixed(2)}ms)
-          </span>
-        </div>
-        {parallelTraces.map((trace) => {
-          const leftPercent = (trace.startTime / maxEnd) * 100;
-          const widthPercent = Math.max(
-            0.5,
-            ((trace.endTime - trace.startTime) / maxEnd) * 100
-          );
-
-          return (
-            <div key={trace.index} className="flex items-center gap-2">
-              <span className="w-12 text-[10px] text-zinc-500 dark:text-zinc-400 text-right shrink-0">
-                #{trace.index + 1}
-              </span>
-              <div className="flex-1 h-4 bg-zinc-100 dark:bg-zinc-800 rounded relative">
-                <div
-                  className="absolute top-0.5 bottom-0.5 bg-blue-500 rounded transition-all duration-300"
-                  style={{
-                    left: `${leftPercent}%`,
-                    width: `${widthPercent}%`,
-                  }}
-                />
+      {runs.map((run) => (
+        <div key={run.mode} className="space-y-1">
+          <div className="flex items-center gap-2 mb-2">
+            <div className={`w-3 h-3 ${MODE_COLORS[run.mode].bar} rounded`} />
+            <span className="text-xs font-medium text-zinc-700 dark:text-zinc-300">
+              {getModeLabel(run)}
+            </span>
+            <span className="text-xs text-zinc-500">
+              ({run.totalLatency.toFixed(2)}ms)
+            </span>
+          </div>
+          {run.traces.map((trace) => {
+            const leftPercent = (trace.startTime / maxEnd) * 100;
+            const widthPercent = Math.max(
+              0.5,
+              ((trace.endTime - trace.startTime) / maxEnd) * 100
+            );
+            const queueWaitPercent = trace.queueWait
+              ? (trace.queueWait / maxEnd) * 100
+              : 0;
+
+            return (
+              <div key={trace.index} className="flex items-center gap-2">
+                <span className="w-12 text-[10px] text-zinc-500 dark:text-zinc-400 text-right shrink-0">
+                  #{trace.index + 1}
+                </span>
+                <div className="flex-1 h-4 bg-zinc-100 dark:bg-zinc-800 rounded relative">
+                  {queueWaitPercent > 0 && (
+                    <div
+                      className="absolute top-1.5 bottom-1.5 bg-zinc-300 dark:bg-zinc-600 rounded-l"
+                      style={{
+                        left: `${leftPercent - queueWaitPercent}%`,
+                        width: `${queueWaitPercent}%`,
+                      }}
+                    />
+                  )}
+                  <div
+                    className={`absolute top-0.5 bottom-0.5 ${MODE_COLORS[run.mode].bar} rounded transition-all duration-300`}
+                    style={{
+                      left: `${leftPercent}%`,
+                      width: `${widthPercent}%`,
+                    }}
+                  />
+                </div>
               </div>
-            </div>
-          );
-        })}
-      </div>
-
-      {/* Sequential Timeline */}
-      <div className="space-y-1">
-        <div className="flex items-center gap-2 mb-2">
-          <div className="w-3 h-3 bg-purple-500 rounded" />
-          <span className="text-xs font-medium text-zinc-700 dark:text-zinc-300">
-            Sequential
-          </span>
-          <span className="text-xs text-zinc-500">
-            ({sequentialTotal.toFixed(2)}ms)
-          </span>
+            );
+          })}
         </div>
-        {sequentialTraces.map((trace) => {
-          const leftPercent = (trace.startTime / maxEnd) * 100;
-          const widthPercent = Math.max(
-            0.5,
-            ((trace.endTime - trace.startTime) / maxEnd) * 100
-          );
-
-          return (
-            <div key={trace.index} className="flex items-center gap-2">
-              <span className="w-12 text-[10px] text-zinc-500 dark:text-zinc-400 text-right shrink-0">
-                #{trace.index + 1}
-              </span>
-              <div className="flex-1 h-4 bg-zinc-100 dark:bg-zinc-800 rounded relative">
-                <div
-                  className="absolute top-0.5 bottom-0.5 bg-purple-500 rounded transition-all duration-300"
-                  style={{
-                    left: `${leftPercent}%`,
-                    width: `${widthPercent}%`,
-                  }}
-                />
-              </div>
-            </div>
-          );
-        })}
-      </div>
+      ))}
     </div>
   );
 }
@@ -1197,16 +3461,25 @@ function IndividualFetchGraph({
   results,
   mode,
   showNetworkBreakdown,
+  fetchCount,
 }: {
   results: FetchResult[];
-  mode: "parallel" | "sequential";
+  mode: RunMode;
   showNetworkBreakdown?: boolean;
+  fetchCount?: number; // while streaming: rows for fetches not yet reported
 }) {
   const [hoveredFetch, setHoveredFetch] = useState<number | null>(null);
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
 
-  const maxLatency = Math.max(...results.map((r) => r.latency));
-  const color = mode === "parallel" ? "bg-blue-500" : "bg-purple-500";
+  // Streamed results arrive in completion order
+  const rows =
+    fetchCount === undefined
+      ? results
+      : Array.from({ length: fetchCount }, (_, i) =>
+          results.find((r) => r.index === i)
+        );
+  const maxLatency = Math.max(0, ...results.map((r) => r.latency));
+  const color = MODE_COLORS[mode].bar;
 
   const handleMouseEnter = (
     event: React.MouseEvent<HTMLDivElement>,
@@ -1241,7 +3514,17 @@ function IndividualFetchGraph({
           Max: {maxLatency.toFixed(2)}ms
         </span>
       </div>
-      {results.map((fetchResult, index) => {
+      {rows.map((fetchResult, index) => {
+        if (!fetchResult) {
+          return (
+            <div key={index} className="flex items-center gap-2">
+              <span className="w-8 text-xs text-zinc-500 dark:text-zinc-400 text-right">
+                #{index + 1}
+              </span>
+              <div className="flex-1 h-5 bg-zinc-100 dark:bg-zinc-800 rounded animate-pulse" />
+            </div>
+          );
+        }
         const networkTimings = resultHasTimings(fetchResult) ? fetchResult.networkTimings : null;
         const showBreakdown = showNetworkBreakdown && networkTimings;
 
@@ -1286,13 +3569,49 @@ function IndividualFetchGraph({
             {!fetchResult.success && (
               <span className="text-xs text-red-500">Failed</span>
             )}
+            {fetchResult.cacheStatus !== undefined && (
+              <span
+                className={`text-xs ${CACHE_STATUS_COLORS[fetchResult.cacheStatus]}`}
+                title={
+                  fetchResult.dataAge !== undefined
+                    ? `Data age ${formatAge(fetchResult.dataAge)}`
+                    : undefined
+                }
+              >
+                {fetchResult.cacheStatus}
+              </span>
+            )}
+            {fetchResult.coalesced && (
+              <span className="text-xs text-teal-600 dark:text-teal-400">
+                shared
+              </span>
+            )}
+            {fetchResult.httpStatus === 304 && (
+              <span className="text-xs text-cyan-600 dark:text-cyan-400">
+                304
+              </span>
+            )}
+            {fetchResult.payload && fetchResult.httpStatus !== 304 && (
+              <span
+                className="text-xs text-zinc-500"
+                title={`${formatBytes(fetchResult.payload.decodedBytes)} decoded${
+                  fetchResult.payload.contentEncoding
+                    ? `, ${fetchResult.payload.contentEncoding}`
+                    : ""
+                }`}
+              >
+                {fetchResult.payload.encodedBytes === undefined
+                  ? "?"
+                  : formatBytes(fetchResult.payload.encodedBytes)}
+              </span>
+            )}
           </div>
         );
       })}
 
       {/* Tooltip */}
       {hoveredFetch !== null && showNetworkBreakdown && (() => {
-        const result = results[hoveredFetch];
+        const result = rows[hoveredFetch];
         return result && resultHasTimings(result) && (
           <NetworkTimingsTooltip
             timings={result.networkTimings}
@@ -1334,35 +3653,32 @@ function IndividualNetworkTimingBar({ timings }: { timings: NetworkTimings }) {
 }
 
 function ComparisonFetchGraph({
-  parallelResults,
-  sequentialResults,
+  runs,
   showNetworkBreakdown,
 }: {
-  parallelResults: FetchResult[];
-  sequentialResults: FetchResult[];
+  runs: BenchmarkResponse[];
   showNetworkBreakdown?: boolean;
 }) {
-  const [hoveredFetch, setHoveredFetch] = useState<{ index: number; mode: "parallel" | "sequential" } | null>(null);
+  const [hoveredFetch, setHoveredFetch] = useState<{ index: number; runIndex: number } | null>(null);
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
 
   const maxLatency = Math.max(
-    ...parallelResults.map((r) => r.latency),
-    ...sequentialResults.map((r) => r.latency)
+    ...runs.flatMap((run) => run.results.map((r) => r.latency))
   );
 
-  const fetchCount = Math.max(parallelResults.length, sequentialResults.length);
+  const fetchCount = Math.max(...runs.map((run) => run.results.length));
 
   const handleMouseEnter = (
     event: React.MouseEvent<HTMLDivElement>,
     index: number,
-    mode: "parallel" | "sequential"
+    runIndex: number
   ) => {
     const rect = event.currentTarget.getBoundingClientRect();
     setTooltipPosition({
       x: event.clientX,
       y: rect.top + rect.height / 2,
     });
-    setHoveredFetch({ index, mode });
+    setHoveredFetch({ index, runIndex });
   };
 
   const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
@@ -1376,126 +3692,306 @@ function ComparisonFetchGraph({
     setHoveredFetch(null);
   };
 
-  const hoveredParallelResult =
-    hoveredFetch?.mode === "parallel"
-      ? parallelResults[hoveredFetch.index]
-      : null;
-
-  const hoveredSequentialResult =
-    hoveredFetch?.mode === "sequential"
-      ? sequentialResults[hoveredFetch.index]
-      : null;
+  const hoveredRun = hoveredFetch ? runs[hoveredFetch.runIndex] : null;
+  const hoveredResult =
+    hoveredFetch && hoveredRun ? hoveredRun.results[hoveredFetch.index] : null;
 
   return (
     <div className="space-y-2">
       <div className="flex items-center justify-between mb-2">
         <div className="flex items-center gap-4">
-          <div className="flex items-center gap-1.5">
-            <div className="w-3 h-3 bg-blue-500 rounded" />
-            <span className="text-xs text-zinc-600 dark:text-zinc-400">
-              Parallel
-            </span>
-          </div>
-          <div className="flex items-center gap-1.5">
-            <div className="w-3 h-3 bg-purple-500 rounded" />
-            <span className="text-xs text-zinc-600 dark:text-zinc-400">
-              Sequential
-            </span>
-          </div>
+          {runs.map((run) => (
+            <div key={run.mode} className="flex items-center gap-1.5">
+              <div className={`w-3 h-3 ${MODE_COLORS[run.mode].bar} rounded`} />
+              <span className="text-xs text-zinc-600 dark:text-zinc-400">
+                {getModeLabel(run)}
+              </span>
+            </div>
+          ))}
         </div>
         <span className="text-xs text-zinc-500">
           Max: {maxLatency.toFixed(2)}ms
         </span>
       </div>
 
-      {Array.from({ length: fetchCount }).map((_, index) => {
-        const parallelFetch = parallelResults[index];
-        const sequentialFetch = sequentialResults[index];
-        const parallelTimings = parallelFetch && resultHasTimings(parallelFetch) ? parallelFetch.networkTimings : null;
-        const sequentialTimings = sequentialFetch && resultHasTimings(sequentialFetch) ? sequentialFetch.networkTimings : null;
-
-        return (
-          <div key={index} className="flex items-center gap-2">
-            <span className="w-8 text-xs text-zinc-500 dark:text-zinc-400 text-right">
-              #{index + 1}
-            </span>
-            <div className="flex-1 space-y-0.5">
-              {/* Parallel bar */}
-              <div className="h-3 bg-zinc-200 dark:bg-zinc-700 rounded overflow-hidden relative">
-                {parallelFetch && (
-                  <div
-                    className="absolute inset-0 cursor-pointer hover:opacity-80"
-                    style={{
-                      width: `${Math.max(2, (parallelFetch.latency / maxLatency) * 100)}%`,
-                    }}
-                    onMouseEnter={(e) => handleMouseEnter(e, index, "parallel")}
-                    onMouseMove={handleMouseMove}
-                    onMouseLeave={handleMouseLeave}
-                  >
-                    {showNetworkBreakdown && parallelTimings ? (
-                      <ComparisonNetworkTimingBar timings={parallelTimings} />
-                    ) : (
-                      <div className="h-full bg-blue-500" />
-                    )}
-                  </div>
-                )}
-              </div>
-              {/* Sequential bar */}
-              <div className="h-3 bg-zinc-200 dark:bg-zinc-700 rounded overflow-hidden relative">
-                {sequentialFetch && (
-                  <div
-                    className="absolute inset-0 cursor-pointer hover:opacity-80"
-                    style={{
-                      width: `${Math.max(2, (sequentialFetch.latency / maxLatency) * 100)}%`,
-                    }}
-                    onMouseEnter={(e) => handleMouseEnter(e, index, "sequential")}
-                    onMouseMove={handleMouseMove}
-                    onMouseLeave={handleMouseLeave}
-                  >
-                    {showNetworkBreakdown && sequentialTimings ? (
-                      <ComparisonNetworkTimingBar timings={sequentialTimings} />
-                    ) : (
-                      <div className="h-full bg-purple-500" />
-                    )}
-                  </div>
-                )}
-              </div>
-            </div>
-            <div className="w-24 text-right">
-              <div className="text-[10px] font-mono text-blue-600 dark:text-blue-400">
-                {parallelFetch ? `${parallelFetch.latency.toFixed(1)}ms` : "-"}
-              </div>
-              <div className="text-[10px] font-mono text-purple-600 dark:text-purple-400">
-                {sequentialFetch
-                  ? `${sequentialFetch.latency.toFixed(1)}ms`
+      {Array.from({ length: fetchCount }).map((_, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="w-8 text-xs text-zinc-500 dark:text-zinc-400 text-right">
+            #{index + 1}
+          </span>
+          <div className="flex-1 space-y-0.5">
+            {runs.map((run, runIndex) => {
+              const fetchResult = run.results[index];
+              const timings =
+                fetchResult && resultHasTimings(fetchResult)
+                  ? fetchResult.networkTimings
+                  : null;
+              return (
+                <div
+                  key={run.mode}
+                  className="h-3 bg-zinc-200 dark:bg-zinc-700 rounded overflow-hidden relative"
+                >
+                  {fetchResult && (
+                    <div
+                      className="absolute inset-0 cursor-pointer hover:opacity-80"
+                      style={{
+                        width: `${Math.max(2, (fetchResult.latency / maxLatency) * 100)}%`,
+                      }}
+                      onMouseEnter={(e) => handleMouseEnter(e, index, runIndex)}
+                      onMouseMove={handleMouseMove}
+                      onMouseLeave={handleMouseLeave}
+                    >
+                      {showNetworkBreakdown && timings ? (
+                        <ComparisonNetworkTimingBar timings={timings} />
+                      ) : (
+                        <div className={`h-full ${MODE_COLORS[run.mode].bar}`} />
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="w-24 text-right">
+            {runs.map((run) => (
+              <div
+                key={run.mode}
+                className={`text-[10px] font-mono ${MODE_COLORS[run.mode].text}`}
+              >
+                {run.results[index]
+                  ? `${run.results[index].latency.toFixed(1)}ms`
                   : "-"}
               </div>
-            </div>
+            ))}
           </div>
-        );
-      })}
+        </div>
+      ))}
 
       {/* Tooltip */}
-      {hoveredFetch !== null && showNetworkBreakdown && (
-        <>
-          {hoveredParallelResult &&
-            resultHasTimings(hoveredParallelResult) && (
-            <NetworkTimingsTooltip
-              timings={hoveredParallelResult.networkTimings}
-              position={tooltipPosition}
-              traceName={`Parallel Fetch #${hoveredFetch.index + 1}`}
-            />
-          )}
-          {hoveredSequentialResult &&
-            resultHasTimings(hoveredSequentialResult) && (
-            <NetworkTimingsTooltip
-              timings={hoveredSequentialResult.networkTimings}
-              position={tooltipPosition}
-              traceName={`Sequential Fetch #${hoveredFetch.index + 1}`}
-            />
-          )}
-        </>
-      )}
+      {hoveredFetch !== null &&
+        showNetworkBreakdown &&
+        hoveredRun &&
+        hoveredResult &&
+        resultHasTimings(hoveredResult) && (
+          <NetworkTimingsTooltip
+            timings={hoveredResult.networkTimings}
+            position={tooltipPosition}
+            traceName={`${getModeLabel(hoveredRun)} Fetch #${hoveredFetch.index + 1}`}
+          />
+        )}
+    </div>
+  );
+}
+
+function SpeedupVerdict({
+  estimate,
+  candidate,
+  baseline,
+  className,
+}: {
+  estimate: SpeedupEstimate;
+  candidate: string;
+  baseline: string;
+  className?: string;
+}) {
+  const faster = estimate.speedup >= 1;
+  // Express slowdowns as "baseline is N× faster" so the factor stays >= 1
+  const factor = faster ? estimate.speedup : 1 / estimate.speedup;
+  const low = faster ? estimate.ciLow : 1 / estimate.ciHigh;
+  const high = faster ? estimate.ciHigh : 1 / estimate.ciLow;
+  const significant = estimate.pValue < 1 - estimate.confidence;
+
+  return (
+    <p
+      className={`${className ?? ""} ${
+        faster
+          ? "text-green-600 dark:text-green-400"
+          : "text-purple-600 dark:text-purple-400"
+      }`}
+    >
+      {faster
+        ? `${candidate} is ${factor.toFixed(1)}× faster than ${baseline}`
+        : `${baseline.charAt(0).toUpperCase() + baseline.slice(1)} is ${factor.toFixed(1)}× faster than ${candidate}`}{" "}
+      ({Math.round(estimate.confidence * 100)}% CI {low.toFixed(1)}–
+      {high.toFixed(1)}×)
+      <span
+        className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+          significant
+            ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+            : "bg-zinc-200 text-zinc-600 dark:bg-zinc-700 dark:text-zinc-400"
+        }`}
+      >
+        p = {estimate.pValue.toFixed(3)}
+        {significant ? "" : ", not significant"}
+      </span>
+    </p>
+  );
+}
+
+function SweepChart({ sweep }: { sweep: SweepResponse }) {
+  const width = 600;
+  const height = 220;
+  const padding = { top: 16, right: 16, bottom: 32, left: 48 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  const maxThroughput = Math.max(...sweep.levels.map((l) => l.throughput), 1);
+  // Levels are usually powers of two, so space them evenly rather than linearly
+  const points = sweep.levels.map((level, i) => ({
+    level,
+    x:
+      padding.left +
+      (sweep.levels.length > 1
+        ? (i / (sweep.levels.length - 1)) * plotWidth
+        : plotWidth / 2),
+    y:
+      padding.top +
+      plotHeight -
+      (level.throughput / maxThroughput) * plotHeight,
+  }));
+  const knee = points.find(
+    (p) => p.level.concurrency === sweep.kneeConcurrency
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          Throughput vs Concurrency
+        </span>
+        {sweep.kneeConcurrency !== null && (
+          <span className="px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+            Knee at concurrency {sweep.kneeConcurrency}
+          </span>
+        )}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full h-auto text-zinc-400 dark:text-zinc-500"
+      >
+        {/* Axes */}
+        <line
+          x1={padding.left}
+          y1={padding.top + plotHeight}
+          x2={padding.left + plotWidth}
+          y2={padding.top + plotHeight}
+          stroke="currentColor"
+        />
+        <line
+          x1={padding.left}
+          y1={padding.top}
+          x2={padding.left}
+          y2={padding.top + plotHeight}
+          stroke="currentColor"
+        />
+        {[0, 0.5, 1].map((fraction) => (
+          <text
+            key={fraction}
+            x={padding.left - 6}
+            y={padding.top + plotHeight - fraction * plotHeight + 3}
+            textAnchor="end"
+            fontSize={10}
+            fill="currentColor"
+          >
+            {(maxThroughput * fraction).toFixed(0)}
+          </text>
+        ))}
+        <text
+          x={12}
+          y={padding.top + plotHeight / 2}
+          fontSize={10}
+          fill="currentColor"
+          transform={`rotate(-90 12 ${padding.top + plotHeight / 2})`}
+          textAnchor="middle"
+        >
+          req/s
+        </text>
+
+        {/* Curve */}
+        <polyline
+          points={points.map((p) => `${p.x},${p.y}`).join(" ")}
+          fill="none"
+          className="stroke-blue-500"
+          strokeWidth={2}
+        />
+        {points.map((p) => (
+          <g key={p.level.concurrency}>
+            <circle cx={p.x} cy={p.y} r={4} className="fill-blue-500" />
+            <text
+              x={p.x}
+              y={padding.top + plotHeight + 16}
+              textAnchor="middle"
+              fontSize={10}
+              fill="currentColor"
+            >
+              {p.level.concurrency}
+            </text>
+          </g>
+        ))}
+        {knee && (
+          <circle
+            cx={knee.x}
+            cy={knee.y}
+            r={8}
+            fill="none"
+            className="stroke-amber-500"
+            strokeWidth={2}
+          />
+        )}
+      </svg>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-zinc-200 dark:border-zinc-700">
+              <th className="text-right py-2 px-2 font-medium text-zinc-600 dark:text-zinc-400">
+                Concurrency
+              </th>
+              <th className="text-right py-2 px-2 font-medium text-zinc-600 dark:text-zinc-400">
+                Throughput (req/s)
+              </th>
+              <th className="text-right py-2 px-2 font-medium text-zinc-600 dark:text-zinc-400">
+                p50 (ms)
+              </th>
+              <th className="text-right py-2 px-2 font-medium text-zinc-600 dark:text-zinc-400">
+                p95 (ms)
+              </th>
+              <th className="text-right py-2 px-2 font-medium text-zinc-600 dark:text-zinc-400">
+                Success
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {sweep.levels.map((level) => (
+              <tr
+                key={level.concurrency}
+                className={`border-b border-zinc-100 dark:border-zinc-800 ${
+                  level.concurrency === sweep.kneeConcurrency
+                    ? "bg-amber-50 dark:bg-amber-900/10"
+                    : ""
+                }`}
+              >
+                <td className="py-2 px-2 text-right font-mono text-zinc-900 dark:text-zinc-100">
+                  {level.concurrency}
+                </td>
+                <td className="py-2 px-2 text-right font-mono font-semibold text-zinc-900 dark:text-zinc-100">
+                  {level.throughput.toFixed(1)}
+                </td>
+                <td className="py-2 px-2 text-right font-mono text-zinc-900 dark:text-zinc-100">
+                  {level.p50Latency.toFixed(1)}
+                </td>
+                <td className="py-2 px-2 text-right font-mono text-zinc-900 dark:text-zinc-100">
+                  {level.p95Latency.toFixed(1)}
+                </td>
+                <td className="py-2 px-2 text-right font-mono text-zinc-600 dark:text-zinc-400">
+                  {level.successCount}/{level.requests}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
 }
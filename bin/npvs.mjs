@@ -0,0 +1,535 @@
+#!/usr/bin/env node
+// Headless benchmark runner. It drives the same route handlers as the page,
+// so results match what the page shows; start the app first (`npm run dev`
+// or `npm run build && npm run start`) and point --url at it.
+import { parseArgs } from "node:util";
+
+const STRATEGY_ENDPOINTS = {
+  fetch: "/api/fetch-wines",
+  "fetch-nocache": "/api/fetch-wines-nocache",
+  got: "/api/fetch-wines-got",
+  hedged: "/api/fetch-wines-hedged",
+  undici: "/api/fetch-wines-undici",
+  axios: "/api/fetch-wines-axios",
+  "single-flight": "/api/fetch-wines-single-flight",
+  lru: "/api/fetch-wines-lru",
+  swr: "/api/fetch-wines-swr",
+};
+
+const MODES = ["parallel", "sequential", "pooled"];
+
+// Each preset is a list of runs; flags given on the command line override
+// every run's settings. Runs with `invalidateCache` empty the cache before
+// every trial, so the cached strategy starts cold.
+const PRESETS = {
+  "got-pooling": {
+    description:
+      "got with a new connection per request vs a shared keep-alive agent",
+    runs: [
+      { strategy: "got", mode: "parallel", count: 10, transport: "http1-fresh" },
+      {
+        strategy: "got",
+        mode: "parallel",
+        count: 10,
+        transport: "http1-keepalive",
+        maxSockets: 10,
+      },
+    ],
+  },
+  "got-http2": {
+    description: "got over a shared HTTP/2 session vs HTTP/1.1",
+    runs: [
+      { strategy: "got", mode: "parallel", count: 10, transport: "http2" },
+      { strategy: "got", mode: "parallel", count: 10, transport: "http1-fresh" },
+    ],
+  },
+  clients: {
+    description: "every uncached client on the same workload",
+    runs: [
+      { strategy: "fetch-nocache", mode: "parallel", count: 10 },
+      { strategy: "got", mode: "parallel", count: 10, transport: "http1-keepalive" },
+      { strategy: "undici", mode: "parallel", count: 10 },
+      { strategy: "axios", mode: "parallel", count: 10 },
+    ],
+  },
+  coalescing: {
+    description: "single-flight vs a cold unstable_cache vs no cache",
+    runs: [
+      { strategy: "single-flight", mode: "parallel", count: 50 },
+      { strategy: "fetch", mode: "parallel", count: 50, invalidateCache: true },
+      { strategy: "fetch-nocache", mode: "parallel", count: 50 },
+    ],
+  },
+  "cache-layers": {
+    description: "unstable_cache vs in-memory LRU vs stale-while-revalidate",
+    runs: [
+      { strategy: "fetch", mode: "sequential", count: 20, invalidateCache: true },
+      { strategy: "lru", mode: "sequential", count: 20, invalidateCache: true },
+      { strategy: "swr", mode: "sequential", count: 20, invalidateCache: true },
+    ],
+  },
+  conditional: {
+    description: "full downloads vs ETag revalidation of a large payload",
+    runs: [
+      {
+        strategy: "fetch-nocache",
+        mode: "parallel",
+        count: 20,
+        target: "/api/mock-upstream?items=5000",
+        invalidateCache: true,
+      },
+      {
+        strategy: "fetch-nocache",
+        mode: "parallel",
+        count: 20,
+        target: "/api/mock-upstream?items=5000",
+        conditional: true,
+      },
+    ],
+  },
+};
+
+const DEFAULTS = {
+  strategy: "fetch",
+  mode: "parallel",
+  count: 10,
+  concurrency: 4,
+  trials: 1,
+};
+
+const USAGE = `Usage:
+  npvs run [options]
+  npvs preset <name> [options]
+  npvs presets
+
+Options:
+  --strategy <name>      ${Object.keys(STRATEGY_ENDPOINTS).join(" | ")} (default ${DEFAULTS.strategy})
+  --mode <mode>          ${MODES.join(" | ")} | compare (default ${DEFAULTS.mode})
+  --count <n>            fetches per run, 1-100 (default ${DEFAULTS.count})
+  --concurrency <n>      pool size for pooled mode (default ${DEFAULTS.concurrency})
+  --trials <n>           runs per mode; the median run is reported, and speedups
+                         get a confidence interval (default ${DEFAULTS.trials})
+  --transport <name>     got only: http1-fresh | http1-keepalive | http2
+  --max-sockets <n>      got http1-keepalive only
+  --cache-ttl <s>        fetch, lru and swr: cache entry lifetime in seconds
+  --max-entries <n>      lru and swr: entries kept before evicting
+  --max-stale <s>        swr only: how long past the TTL stale data is served
+  --connections <n>      undici only: pool size per origin
+  --pipelining <n>       undici only: requests in flight per connection
+  --hedge-delay <ms>     hedged only: delay before the backup request
+  --target <url>         URL to benchmark (default: the app's default target)
+  --conditional          revalidate the target with its last ETag / Last-Modified
+  --url <url>            where the app runs (default $NPVS_URL or http://localhost:3000)
+  --json                 print JSON instead of a table
+  -h, --help             show this help`;
+
+class CliError extends Error {}
+
+function parseInteger(value, name, min, max) {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new CliError(`--${name} must be an integer between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+// Settings from flags, leaving out the ones not given so presets keep theirs
+function readOverrides(values) {
+  const overrides = {};
+  if (values.strategy !== undefined) {
+    if (!(values.strategy in STRATEGY_ENDPOINTS)) {
+      throw new CliError(`unknown strategy '${values.strategy}'`);
+    }
+    overrides.strategy = values.strategy;
+  }
+  if (values.mode !== undefined) {
+    if (!MODES.includes(values.mode) && values.mode !== "compare") {
+      throw new CliError(`unknown mode '${values.mode}'`);
+    }
+    overrides.mode = values.mode;
+  }
+  if (values.count !== undefined) {
+    overrides.count = parseInteger(values.count, "count", 1, 100);
+  }
+  if (values.concurrency !== undefined) {
+    overrides.concurrency = parseInteger(values.concurrency, "concurrency", 1, 100);
+  }
+  if (values.trials !== undefined) {
+    overrides.trials = parseInteger(values.trials, "trials", 1, 50);
+  }
+  if (values.transport !== undefined) {
+    overrides.transport = values.transport;
+  }
+  if (values["max-sockets"] !== undefined) {
+    overrides.maxSockets = parseInteger(values["max-sockets"], "max-sockets", 1, 100);
+  }
+  if (values["cache-ttl"] !== undefined) {
+    overrides.cacheTtl = parseInteger(values["cache-ttl"], "cache-ttl", 1, 86400);
+  }
+  if (values["max-entries"] !== undefined) {
+    overrides.maxEntries = parseInteger(values["max-entries"], "max-entries", 1, 10000);
+  }
+  if (values["max-stale"] !== undefined) {
+    overrides.maxStale = parseInteger(values["max-stale"], "max-stale", 1, 86400);
+  }
+  if (values.connections !== undefined) {
+    overrides.connections = parseInteger(values.connections, "connections", 1, 100);
+  }
+  if (values.pipelining !== undefined) {
+    overrides.pipelining = parseInteger(values.pipelining, "pipelining", 1, 100);
+  }
+  if (values["hedge-delay"] !== undefined) {
+    overrides.hedgeDelay = parseInteger(values["hedge-delay"], "hedge-delay", 0, 60000);
+  }
+  if (values.target !== undefined) {
+    overrides.target = values.target;
+  }
+  if (values.conditional) {
+    overrides.conditional = true;
+  }
+  return overrides;
+}
+
+async function invalidateCache(baseUrl) {
+  let response;
+  try {
+    response = await fetch(new URL("/api/invalidate-cache", baseUrl), {
+      method: "POST",
+    });
+  } catch {
+    throw new CliError(
+      `could not reach the app at ${baseUrl}; start it or pass --url`
+    );
+  }
+  if (!response.ok) {
+    const body = await response.json();
+    throw new CliError(body.error || `request failed with ${response.status}`);
+  }
+}
+
+async function postRun(baseUrl, run, mode) {
+  if (run.conditional && !run.target) {
+    throw new CliError("--conditional needs --target");
+  }
+  if (run.invalidateCache) {
+    await invalidateCache(baseUrl);
+  }
+  const endpoint = new URL(STRATEGY_ENDPOINTS[run.strategy], baseUrl);
+  let response;
+  try {
+    response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        fetchCount: run.count,
+        mode,
+        concurrency: mode === "pooled" ? run.concurrency : undefined,
+        target: run.target
+          ? { url: run.target, conditional: run.conditional }
+          : undefined,
+        transport: run.transport,
+        maxSockets: run.maxSockets,
+        cacheTtl: run.cacheTtl,
+        maxEntries: run.maxEntries,
+        maxStale: run.maxStale,
+        connections: run.connections,
+        pipelining: run.pipelining,
+        hedge:
+          run.hedgeDelay !== undefined ? { delayMs: run.hedgeDelay } : undefined,
+      }),
+    });
+  } catch {
+    throw new CliError(
+      `could not reach the app at ${baseUrl}; start it or pass --url`
+    );
+  }
+  const body = await response.json();
+  if (!response.ok) {
+    throw new CliError(body.error || `request failed with ${response.status}`);
+  }
+  return body;
+}
+
+// Bootstrap CI and p-value for a speedup over trials, from the same
+// statistics the page uses
+async function estimateSpeedup(baseUrl, baseline, candidate) {
+  let response;
+  try {
+    response = await fetch(new URL("/api/speedup", baseUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        baseline: baseline.map((r) => r.totalLatency),
+        candidate: candidate.map((r) => r.totalLatency),
+      }),
+    });
+  } catch {
+    throw new CliError(
+      `could not reach the app at ${baseUrl}; start it or pass --url`
+    );
+  }
+  const body = await response.json();
+  if (!response.ok) {
+    throw new CliError(body.error || `request failed with ${response.status}`);
+  }
+  return body;
+}
+
+// Speedups compare the modes of one run config, as in compare mode. With
+// several trials each carries an estimate, as on the page.
+async function compareModes(baseUrl, results) {
+  const speedups = [];
+  for (const sequential of results.filter((r) => r.mode === "sequential")) {
+    const others = results.filter(
+      (r) =>
+        r.mode !== "sequential" && describeRun(r) === describeRun(sequential)
+    );
+    for (const r of others) {
+      speedups.push({
+        run: describeRun(r),
+        mode: describeMode(r),
+        medianSpeedup:
+          sequential.median.totalLatency / r.median.totalLatency,
+        estimate:
+          r.responses.length > 1
+            ? await estimateSpeedup(baseUrl, sequential.responses, r.responses)
+            : undefined,
+      });
+    }
+  }
+  return speedups;
+}
+
+function formatSpeedup({ medianSpeedup, estimate }) {
+  if (!estimate) {
+    return `${medianSpeedup.toFixed(2)}x`;
+  }
+  const significant = estimate.pValue < 1 - estimate.confidence;
+  return (
+    `${estimate.speedup.toFixed(2)}x ` +
+    `(${Math.round(estimate.confidence * 100)}% CI ` +
+    `${estimate.ciLow.toFixed(2)}-${estimate.ciHigh.toFixed(2)}x, ` +
+    `p = ${estimate.pValue.toFixed(3)}${significant ? "" : ", not significant"})`
+  );
+}
+
+// The run with the median total latency, like the page's trial summary
+function pickMedianRun(responses) {
+  const sorted = [...responses].sort((a, b) => a.totalLatency - b.totalLatency);
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+// Run every mode of a run config for the requested number of trials. In
+// compare mode the starting mode rotates per trial, as on the page.
+async function runConfig(baseUrl, run) {
+  const modes = run.mode === "compare" ? MODES : [run.mode];
+  const trials = Object.fromEntries(modes.map((mode) => [mode, []]));
+  for (let trial = 0; trial < run.trials; trial++) {
+    for (let i = 0; i < modes.length; i++) {
+      const mode = modes[(trial + i) % modes.length];
+      process.stderr.write(
+        `${describeRun(run)} ${mode}, trial ${trial + 1}/${run.trials}\n`
+      );
+      trials[mode].push(await postRun(baseUrl, run, mode));
+    }
+  }
+  return modes.map((mode) => ({
+    ...run,
+    mode,
+    responses: trials[mode],
+    median: pickMedianRun(trials[mode]),
+  }));
+}
+
+function describeRun(run) {
+  let label = run.strategy;
+  if (run.transport) {
+    label += ` ${run.transport}`;
+    if (run.maxSockets !== undefined) label += ` (max ${run.maxSockets})`;
+  }
+  if (run.connections !== undefined || run.pipelining !== undefined) {
+    const pool = [];
+    if (run.connections !== undefined) pool.push(`${run.connections} conns`);
+    if (run.pipelining !== undefined) pool.push(`pipelining ${run.pipelining}`);
+    label += ` (${pool.join(", ")})`;
+  }
+  if (run.invalidateCache) label += " (cold)";
+  if (run.conditional) label += " (conditional)";
+  if (run.hedgeDelay !== undefined) label += ` (hedge ${run.hedgeDelay}ms)`;
+  return label;
+}
+
+function describeMode(result) {
+  return result.mode === "pooled"
+    ? `pooled (${result.concurrency})`
+    : result.mode;
+}
+
+// Failures exclude fetches cancelled by a completion mode, as on the page
+function countFailures(response) {
+  return response.results.filter((r) => !r.success && !r.cancelled).length;
+}
+
+function formatMs(value) {
+  return value.toFixed(1);
+}
+
+function formatBytes(bytes) {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+function printTable(results, speedups) {
+  const columns = [
+    ["Strategy", (r) => describeRun(r)],
+    ["Mode", (r) => describeMode(r)],
+    ["Fetches", (r) => String(r.median.fetchCount)],
+    ["Total ms", (r) => formatMs(r.median.totalLatency)],
+    ["Avg ms", (r) => formatMs(r.median.averageLatency)],
+    ["p50", (r) => formatMs(r.median.latencyStats.p50)],
+    ["p95", (r) => formatMs(r.median.latencyStats.p95)],
+    ["p99", (r) => formatMs(r.median.latencyStats.p99)],
+    ["Max", (r) => formatMs(r.median.latencyStats.max)],
+    ["Failed", (r) => String(countFailures(r.median))],
+    [
+      "Hits",
+      (r) =>
+        r.median.hitRatio === undefined
+          ? "-"
+          : `${(r.median.hitRatio * 100).toFixed(0)}%`,
+    ],
+    [
+      "Reused",
+      (r) =>
+        r.median.reusedSocketCount === undefined
+          ? "-"
+          : `${r.median.reusedSocketCount}/${r.median.fetchCount}`,
+    ],
+    [
+      "Upstream",
+      (r) =>
+        r.median.upstreamCalls === undefined
+          ? "-"
+          : String(r.median.upstreamCalls),
+    ],
+    [
+      "Bytes",
+      (r) =>
+        r.median.encodedBytes === undefined
+          ? "-"
+          : formatBytes(r.median.encodedBytes),
+    ],
+    [
+      "304s",
+      (r) =>
+        r.median.notModifiedCount === undefined
+          ? "-"
+          : String(r.median.notModifiedCount),
+    ],
+  ];
+  const rows = results.map((r) => columns.map(([, cell]) => cell(r)));
+  const widths = columns.map(([title], i) =>
+    Math.max(title.length, ...rows.map((row) => row[i].length))
+  );
+  const line = (cells) =>
+    cells
+      .map((cell, i) => (i < 2 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])))
+      .join("  ");
+
+  console.log(line(columns.map(([title]) => title)));
+  console.log(widths.map((width) => "-".repeat(width)).join("  "));
+  for (const row of rows) {
+    console.log(line(row));
+  }
+
+  if (results.some((r) => r.responses.length > 1)) {
+    console.log(
+      `\nMedian of ${results[0].responses.length} trials by total time; ` +
+        "speedups compare mean totals"
+    );
+  }
+  for (const speedup of speedups) {
+    console.log(
+      `${speedup.run} ${speedup.mode} vs sequential: ${formatSpeedup(speedup)}`
+    );
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      strategy: { type: "string" },
+      mode: { type: "string" },
+      count: { type: "string" },
+      concurrency: { type: "string" },
+      trials: { type: "string" },
+      transport: { type: "string" },
+      "max-sockets": { type: "string" },
+      "cache-ttl": { type: "string" },
+      "max-entries": { type: "string" },
+      "max-stale": { type: "string" },
+      connections: { type: "string" },
+      pipelining: { type: "string" },
+      "hedge-delay": { type: "string" },
+      target: { type: "string" },
+      conditional: { type: "boolean", default: false },
+      url: { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command, presetName] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (command === "presets") {
+    for (const [name, preset] of Object.entries(PRESETS)) {
+      console.log(`${name.padEnd(14)}  ${preset.description}`);
+    }
+    return;
+  }
+
+  let runs;
+  if (command === "run") {
+    runs = [{}];
+  } else if (command === "preset") {
+    const preset = PRESETS[presetName];
+    if (!preset) {
+      throw new CliError(
+        `unknown preset '${presetName ?? ""}'; see \`npvs presets\``
+      );
+    }
+    runs = preset.runs;
+  } else {
+    throw new CliError(`unknown command '${command}'\n\n${USAGE}`);
+  }
+
+  const overrides = readOverrides(values);
+  const baseUrl = values.url ?? process.env.NPVS_URL ?? "http://localhost:3000";
+  const results = [];
+  for (const run of runs) {
+    results.push(
+      ...(await runConfig(baseUrl, { ...DEFAULTS, ...run, ...overrides }))
+    );
+  }
+
+  const speedups = await compareModes(baseUrl, results);
+  if (values.json) {
+    console.log(JSON.stringify({ runs: results, speedups }, null, 2));
+  } else {
+    printTable(results, speedups);
+  }
+}
+
+main().catch((error) => {
+  if (error instanceof CliError || error?.code?.startsWith("ERR_PARSE_ARGS")) {
+    console.error(`npvs: ${error.message}`);
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+// Checks the OTLP/HTTP JSON the app exports for a benchmark request. It runs
+// an in-memory collector, posts one run to the app and asserts the shape of
+// the trace the app sends back. Start the app with
+// OTEL_EXPORTER_OTLP_ENDPOINT=http://localhost:4318 (or --port) first.
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { parseArgs } from "node:util";
+
+const USAGE = `Usage: npm run check:otlp -- [--url <app>] [--port <collector>]
+
+  --url <url>     app to benchmark (default $NPVS_URL or http://localhost:3000)
+  --port <n>      collector port the app exports to (default 4318)`;
+
+// Exports are sent after the response, and time out after 5s
+const EXPORT_WAIT_MS = 6000;
+const FETCH_COUNT = 2;
+
+function startCollector(port) {
+  const received = [];
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      received.push({
+        path: request.url,
+        contentType: request.headers["content-type"],
+        body: JSON.parse(body),
+      });
+      response.writeHead(200, { "Content-Type": "application/json" });
+      response.end("{}");
+    });
+  });
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, () => resolve({ server, received }));
+  });
+}
+
+async function waitForExport(received) {
+  const deadline = Date.now() + EXPORT_WAIT_MS;
+  while (received.length === 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  assert.ok(
+    received.length > 0,
+    "no export arrived; is the app running with OTEL_EXPORTER_OTLP_ENDPOINT set?"
+  );
+  return received[0];
+}
+
+function assertUnixNano(value, name) {
+  assert.match(value, /^\d+$/, `${name} must be a string of nanoseconds`);
+  // Between 2020 and 2100
+  assert.ok(
+    BigInt(value) > BigInt(1.5e18) && BigInt(value) < BigInt(4.2e18),
+    `${name} is not a Unix time in nanoseconds: ${value}`
+  );
+}
+
+function checkExport(exported) {
+  assert.equal(exported.path, "/v1/traces");
+  assert.equal(exported.contentType, "application/json");
+
+  const { resourceSpans } = exported.body;
+  assert.equal(resourceSpans.length, 1, "one resourceSpans entry");
+  const serviceName = resourceSpans[0].resource.attributes.find(
+    (attribute) => attribute.key === "service.name"
+  );
+  assert.ok(serviceName?.value.stringValue, "resource has a service.name");
+
+  const spans = resourceSpans[0].scopeSpans.flatMap((scope) => scope.spans);
+  const [root, ...children] = spans;
+  assert.equal(root.parentSpanId, undefined, "the first span is the root");
+  assert.equal(children.length, FETCH_COUNT, "one child span per fetch");
+
+  for (const span of spans) {
+    assert.match(span.traceId, /^[0-9a-f]{32}$/, "trace IDs are 16 bytes hex");
+    assert.equal(span.traceId, root.traceId, "every span shares the trace");
+    assert.match(span.spanId, /^[0-9a-f]{16}$/, "span IDs are 8 bytes hex");
+    assertUnixNano(span.startTimeUnixNano, `${span.name} start`);
+    assertUnixNano(span.endTimeUnixNano, `${span.name} end`);
+    assert.ok(
+      BigInt(span.startTimeUnixNano) <= BigInt(span.endTimeUnixNano),
+      `${span.name} ends before it starts`
+    );
+    for (const event of span.events ?? []) {
+      assertUnixNano(event.timeUnixNano, `${span.name} ${event.name}`);
+    }
+  }
+  for (const child of children) {
+    assert.equal(child.parentSpanId, root.spanId, "fetch spans are children");
+  }
+  assert.equal(new Set(spans.map((span) => span.spanId)).size, spans.length);
+  return spans;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      url: { type: "string" },
+      port: { type: "string", default: "4318" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  const baseUrl = values.url ?? process.env.NPVS_URL ?? "http://localhost:3000";
+
+  const { server, received } = await startCollector(Number(values.port));
+  try {
+    const response = await fetch(new URL("/api/fetch-wines-nocache", baseUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        fetchCount: FETCH_COUNT,
+        mode: "parallel",
+        target: { url: "/api/mock-upstream?latency=10&items=1" },
+      }),
+    });
+    assert.ok(response.ok, `benchmark failed with ${response.status}`);
+
+    const spans = checkExport(await waitForExport(received));
+    console.log(`OTLP export ok: ${spans.length} spans in one trace`);
+  } finally {
+    server.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(`check-otlp: ${error.message}`);
+  process.exitCode = 1;
+});